@@ -0,0 +1,456 @@
+/*
+ * Activity Store API Service
+ * Persists email activities with idempotent writes and an offline queue in IndexedDB
+ */
+
+import { authService } from '../auth/AuthService';
+import { SellerActivity } from './SellerMetricsSchema';
+import { ApiError, httpClient } from './HttpClient';
+
+// Activity status workflow
+export type ActivityStatus = 'WORK IN PROGRESS' | 'WAITING ON SELLER' | 'FOLLOW-UP SCHEDULED' | 'DONE';
+
+export const DEFAULT_ACTIVITY_STATUS: ActivityStatus = 'WORK IN PROGRESS';
+
+export const ACTIVITY_STATUSES: Record<ActivityStatus, { label: string; icon: string; color: string; transitions: ActivityStatus[] }> = {
+  'WORK IN PROGRESS': {
+    label: 'Work in Progress',
+    icon: '🚧',
+    color: '#ffc107',
+    transitions: ['WAITING ON SELLER', 'FOLLOW-UP SCHEDULED', 'DONE']
+  },
+  'WAITING ON SELLER': {
+    label: 'Waiting on Seller',
+    icon: '⏳',
+    color: '#17a2b8',
+    transitions: ['WORK IN PROGRESS', 'FOLLOW-UP SCHEDULED', 'DONE']
+  },
+  'FOLLOW-UP SCHEDULED': {
+    label: 'Follow-up Scheduled',
+    icon: '📅',
+    color: '#6f42c1',
+    transitions: ['WORK IN PROGRESS', 'WAITING ON SELLER', 'DONE']
+  },
+  'DONE': {
+    label: 'Done',
+    icon: '✅',
+    color: '#28a745',
+    transitions: ['WORK IN PROGRESS', 'FOLLOW-UP SCHEDULED'] // Reopen
+  }
+};
+
+export function isActivityStatus(status: string): status is ActivityStatus {
+  return Object.prototype.hasOwnProperty.call(ACTIVITY_STATUSES, status);
+}
+
+// Statuses an activity can move to from its current status
+export function getAllowedTransitions(status: string): ActivityStatus[] {
+  return isActivityStatus(status) ? ACTIVITY_STATUSES[status].transitions : [];
+}
+
+export interface StatusTransition {
+  from: string;
+  to: ActivityStatus;
+  user: string;
+  accountId?: string;          // Signed-in account (sub) that made the change
+  timestamp: string;
+}
+
+export interface ActivityRecord {
+  activityId: string;          // Idempotency key derived from the Outlook item ID
+  itemId: string;
+  conversationId?: string;
+  senderEmail?: string;
+  timestamp: string;
+  user: string;
+  accountId?: string;          // Signed-in account (sub) the activity was logged under
+  emailLength: number;
+  wordCount: number;
+  subject: string;
+  hasAttachments: boolean;
+  dueDate: string | null;
+  status: string;
+  activityType: string;
+  summary?: string;
+  statusHistory?: StatusTransition[];
+}
+
+// Queued writes remember whether the activity still needs creating or only a status update
+interface QueuedActivity extends ActivityRecord {
+  syncOperation: 'create' | 'update';
+}
+
+// Filters for listing prior activities
+export interface ActivityQuery {
+  senderEmail?: string;
+  conversationId?: string;
+}
+
+export interface ActivityWriteResult {
+  state: 'saved' | 'queued';
+  record: ActivityRecord;
+}
+
+export interface ActivityListResult {
+  activities: ActivityRecord[];
+  offline: boolean;            // Store unreachable - only activities still in the offline queue are listed
+}
+
+// API configuration
+const API_CONFIG = {
+  prod: {
+    baseUrl: (typeof window !== 'undefined' && window.location.hostname === 'localhost')
+      ? '/api/activities'  // Use webpack proxy during development on localhost
+      : 'https://bwzo9wnhy3.execute-api.us-west-2.amazonaws.com/beta/activities'
+  }
+};
+
+// IndexedDB offline queue
+const QUEUE_DB_NAME = 'am-personal-assistant';
+const QUEUE_DB_VERSION = 1;
+const QUEUE_STORE = 'activityQueue';
+
+// Thrown for failures worth retrying later (offline, network error, 5xx)
+class RetryableActivityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetryableActivityError';
+  }
+}
+
+export class ActivityService {
+  private baseUrl: string;
+  private isReplaying = false;
+  private onlineListener: (() => void) | null = null;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl || API_CONFIG.prod.baseUrl;
+  }
+
+  // Build the idempotency key for an Outlook item - one activity per email
+  static activityIdForItem(itemId: string): string {
+    return `email-${itemId}`;
+  }
+
+  // Map an activity from the seller-search-metrics response onto the activity record shape
+  static fromSellerActivity(activity: SellerActivity): ActivityRecord {
+    const timestamp = activity.activityDate || '';
+    const activityId = activity.activityId || `seller-${timestamp}-${activity.subject || ''}`;
+    return {
+      activityId,
+      itemId: activity.itemId || '',
+      conversationId: activity.conversationId || undefined,
+      senderEmail: activity.contactEmail || undefined,
+      timestamp,
+      user: activity.owner || 'Unknown User',
+      emailLength: 0,
+      wordCount: 0,
+      subject: activity.subject || activity.activityType || 'Seller activity',
+      hasAttachments: false,
+      dueDate: activity.dueDate,
+      status: activity.status || 'UNKNOWN',
+      activityType: activity.activityType || 'seller_activity',
+      summary: activity.description || undefined
+    };
+  }
+
+  // List prior activities, including ones still waiting in the offline queue
+  async getActivities(query: ActivityQuery): Promise<ActivityListResult> {
+    if (!authService.isAuthenticated()) {
+      throw new Error('User not authenticated. Please sign in first.');
+    }
+
+    const queued = (await this.readQueue()).filter(record =>
+      this.isActiveAccountRecord(record) &&
+      (!query.senderEmail || record.senderEmail === query.senderEmail) &&
+      (!query.conversationId || record.conversationId === query.conversationId)
+    );
+
+    let data: any;
+    try {
+      data = await httpClient.get(this.baseUrl, {
+        query: {
+          senderEmail: query.senderEmail,
+          conversationId: query.conversationId
+        }
+      });
+    } catch (error) {
+      // Store unreachable - still show what was logged offline
+      if (error instanceof ApiError && error.retryable) {
+        console.warn('⚠️ Activity store unreachable, listing queued activities only:', error.message);
+        return { activities: ActivityService.mergeActivities(queued), offline: true };
+      }
+      throw new Error(`Failed to load activities: ${(error as Error).message}`);
+    }
+    const stored: ActivityRecord[] = Array.isArray(data) ? data : ((data && data.activities) || []);
+
+    return { activities: ActivityService.mergeActivities(stored, queued), offline: false };
+  }
+
+  // Merge activity lists, de-duplicated by activity ID (later lists win) and newest first
+  static mergeActivities(...lists: ActivityRecord[][]): ActivityRecord[] {
+    const byId: { [activityId: string]: ActivityRecord } = {};
+    lists.forEach(list => list.forEach(record => {
+      byId[record.activityId] = record;
+    }));
+    return Object.keys(byId)
+      .map(activityId => byId[activityId])
+      .sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''));
+  }
+
+  // Write an activity, queueing it for replay when the store can't be reached
+  async logActivity(record: ActivityRecord): Promise<ActivityWriteResult> {
+    const user = authService.getAuthState().user;
+    if (!authService.isAuthenticated() || !user) {
+      throw new Error('User not authenticated. Please sign in first.');
+    }
+    record = { ...record, accountId: user.sub };
+
+    try {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        throw new RetryableActivityError('Browser is offline');
+      }
+
+      const saved = await this.postActivity(record);
+      console.log('✅ Activity saved:', saved.activityId);
+      return { state: 'saved', record: saved };
+    } catch (error) {
+      if (!(error instanceof RetryableActivityError)) {
+        throw error;
+      }
+
+      console.warn('📥 Activity store unreachable, queueing for replay:', error.message);
+      await this.enqueue(record, 'create');
+      return { state: 'queued', record };
+    }
+  }
+
+  // Move an activity to a new status, recording who changed it and when
+  async updateStatus(record: ActivityRecord, status: ActivityStatus): Promise<ActivityWriteResult> {
+    if (getAllowedTransitions(record.status).indexOf(status) === -1) {
+      throw new Error(`Cannot change status from ${record.status} to ${status}`);
+    }
+
+    const user = await authService.getUser();
+    if (!user) {
+      throw new Error('User not authenticated. Please sign in first.');
+    }
+
+    const transition: StatusTransition = {
+      from: record.status,
+      to: status,
+      user: user.name || user.email || 'Unknown User',
+      accountId: user.sub,
+      timestamp: new Date().toISOString()
+    };
+    const updated: ActivityRecord = {
+      ...record,
+      status,
+      statusHistory: (record.statusHistory || []).concat([transition])
+    };
+
+    try {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        throw new RetryableActivityError('Browser is offline');
+      }
+
+      const saved = await this.patchStatus(updated, transition);
+      console.log(`✅ Activity ${updated.activityId} moved to ${status}`);
+      return { state: 'saved', record: saved };
+    } catch (error) {
+      if (!(error instanceof RetryableActivityError)) {
+        throw error;
+      }
+
+      // An activity that was never created still needs the full create on replay
+      const pendingCreate = (await this.readQueue())
+        .some(queued => queued.activityId === updated.activityId && queued.syncOperation === 'create');
+      console.warn('📥 Activity store unreachable, queueing status change:', error.message);
+      await this.enqueue(updated, pendingCreate ? 'create' : 'update');
+      return { state: 'queued', record: updated };
+    }
+  }
+
+  // Replay queued activities; returns how many were written
+  async replayQueue(): Promise<number> {
+    if (this.isReplaying || !authService.isAuthenticated()) {
+      return 0;
+    }
+
+    this.isReplaying = true;
+    let replayed = 0;
+    try {
+      // Only the active account's writes - the others replay once their account is active again
+      const queued = (await this.readQueue()).filter(record => this.isActiveAccountRecord(record));
+      if (queued.length > 0) {
+        console.log(`🔄 Replaying ${queued.length} queued activities...`);
+      }
+
+      for (const queuedRecord of queued) {
+        const { syncOperation, ...record } = queuedRecord;
+        try {
+          if (syncOperation === 'update') {
+            await this.patchStatus(record, record.statusHistory[record.statusHistory.length - 1]);
+          } else {
+            await this.postActivity(record);
+          }
+          await this.dequeue(record.activityId);
+          replayed++;
+        } catch (error) {
+          if (error instanceof RetryableActivityError) {
+            // Still unreachable - keep the rest queued for the next reconnect
+            break;
+          }
+          // The server rejected the record - drop it so it doesn't block the queue
+          console.error('❌ Dropping queued activity rejected by server:', record.activityId, error);
+          await this.dequeue(record.activityId);
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+    }
+
+    return replayed;
+  }
+
+  // Replay now and whenever the browser comes back online
+  startOfflineSync(onReplayed?: (count: number) => void): void {
+    const replay = () => {
+      this.replayQueue()
+        .then(count => {
+          if (count > 0 && onReplayed) {
+            onReplayed(count);
+          }
+        })
+        .catch(error => console.error('❌ Activity queue replay failed:', error));
+    };
+
+    if (this.onlineListener) {
+      window.removeEventListener('online', this.onlineListener);
+    }
+    this.onlineListener = replay;
+    window.addEventListener('online', replay);
+    replay();
+  }
+
+  async getQueuedCount(): Promise<number> {
+    return (await this.readQueue()).length;
+  }
+
+  private async postActivity(record: ActivityRecord): Promise<ActivityRecord> {
+    return this.sendActivityRequest('POST', this.baseUrl, record, record.activityId, record);
+  }
+
+  private async patchStatus(record: ActivityRecord, transition: StatusTransition): Promise<ActivityRecord> {
+    return this.sendActivityRequest(
+      'PATCH',
+      `${this.baseUrl}/${encodeURIComponent(record.activityId)}`,
+      { status: record.status, statusHistory: record.statusHistory },
+      `${record.activityId}:${transition.timestamp}`,
+      record
+    );
+  }
+
+  private async sendActivityRequest(
+    method: string,
+    url: string,
+    body: any,
+    idempotencyKey: string,
+    record: ActivityRecord
+  ): Promise<ActivityRecord> {
+    let saved: any;
+    try {
+      // The idempotency key makes the write safe for the client to retry
+      saved = await httpClient.requestWith(url, {
+        method,
+        headers: {
+          'Accept': 'application/json',
+          'Idempotency-Key': idempotencyKey
+        },
+        body
+      }, response => response.json().catch(() => null));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        if (error.retryable) {
+          throw new RetryableActivityError(error.message);
+        }
+        if (error.code === 'SESSION_EXPIRED' || error.code === 'FORBIDDEN') {
+          throw new Error('Your session has expired. Please sign in again.');
+        }
+        throw new Error(`Activity store rejected the activity: ${error.message}`);
+      }
+      throw error;
+    }
+
+    // The store echoes the stored record; fall back to what we sent
+    return saved && saved.activityId ? saved : record;
+  }
+
+  // Queued records belong to the account that logged them; untagged ones predate multiple accounts
+  private isActiveAccountRecord(record: ActivityRecord): boolean {
+    const user = authService.getAuthState().user;
+    return !record.accountId || (user !== null && record.accountId === user.sub);
+  }
+
+  private openQueue(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(QUEUE_DB_NAME, QUEUE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          // Keyed by activity ID so re-logging the same email replaces the queued copy
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'activityId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async runQueueTransaction<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openQueue();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(QUEUE_STORE, mode);
+      const request = action(transaction.objectStore(QUEUE_STORE));
+      transaction.oncomplete = () => {
+        db.close();
+        resolve(request.result);
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    });
+  }
+
+  private async enqueue(record: ActivityRecord, syncOperation: 'create' | 'update'): Promise<void> {
+    const queued: QueuedActivity = { ...record, syncOperation };
+    await this.runQueueTransaction('readwrite', store => store.put(queued));
+  }
+
+  private async dequeue(activityId: string): Promise<void> {
+    await this.runQueueTransaction('readwrite', store => store.delete(activityId));
+  }
+
+  private async readQueue(): Promise<QueuedActivity[]> {
+    try {
+      const records = await this.runQueueTransaction<QueuedActivity[]>('readonly', store => store.getAll());
+      // Replay oldest first
+      return (records || []).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    } catch (error) {
+      console.warn('⚠️ Could not read activity queue:', error);
+      return [];
+    }
+  }
+}
+
+// Create a singleton instance
+export const activityService = new ActivityService();
@@ -0,0 +1,414 @@
+/*
+ * Agent Backend Contract
+ * Shared types and helpers for every agent endpoint (API Gateway, AgentCore, Lambda)
+ */
+
+import { authService } from '../auth/AuthService';
+import { tokenLifecycle } from '../auth/TokenLifecycle';
+import { ApiError, getAccountHeaders, httpClient, readJsonBody } from './HttpClient';
+
+export interface AgentCitation {
+  generatedResponsePart: {
+    textResponsePart: {
+      text: string;
+      span: {
+        start: number;
+        end: number;
+      };
+    };
+  };
+  retrievedReferences: Array<{
+    content: {
+      text: string;
+    };
+    location: {
+      type: string;
+      s3Location?: {
+        uri: string;
+      };
+    };
+    metadata: Record<string, any>;
+  }>;
+}
+
+export interface AgentTrace {
+  failureTrace?: {
+    failureReason: string;
+    traceId: string;
+  };
+  orchestrationTrace?: {
+    invocationInput?: any;
+    modelInvocationInput?: any;
+    modelInvocationOutput?: any;
+    observation?: any;
+    rationale?: {
+      text: string;
+      traceId?: string;
+    };
+  };
+}
+
+// Normalized response returned by every backend
+export interface AgentResponse {
+  response: string;
+  backendId: string;
+  sessionId?: string;
+  status?: string;
+  mcp_enabled?: boolean;
+  mcp_tools_count?: number;
+  citations?: AgentCitation[];
+  trace?: AgentTrace | AgentTrace[];
+}
+
+export interface AgentInvokeOptions {
+  sessionId?: string;
+  enableTrace?: boolean;
+  endSession?: boolean;
+  signal?: AbortSignal; // Cancels the request when aborted
+}
+
+// Called for every streamed chunk with the new text and everything received so far
+export type AgentStreamHandler = (delta: string, fullText: string) => void;
+
+export interface AgentHealth {
+  status: string;
+  timestamp: string;
+  version?: string;
+}
+
+export interface AgentBackend {
+  readonly id: string;
+  readonly displayName: string;
+  invoke(prompt: string, options?: AgentInvokeOptions): Promise<AgentResponse>;
+  invokeStream?(prompt: string, onChunk: AgentStreamHandler, options?: AgentInvokeOptions): Promise<AgentResponse>;
+  health(): Promise<AgentHealth>;
+}
+
+export class AgentBackendError extends ApiError {
+  constructor(message: string, public backendId: string, status?: number, code?: string, requestId?: string) {
+    super(message, code || 'HTTP_ERROR', status, requestId);
+    this.name = 'AgentBackendError';
+  }
+}
+
+// Flatten the trace shapes backends return (single trace, list of traces, or streamed
+// `{ trace: {...} }` events) into an ordered list of steps
+export function getTraceSteps(trace: any): AgentTrace[] {
+  if (!trace) {
+    return [];
+  }
+  const events = Array.isArray(trace) ? trace : [trace];
+  return events
+    .map(event => (event && event.trace && !event.orchestrationTrace && !event.failureTrace ? event.trace : event))
+    .filter(event => event && (event.orchestrationTrace || event.failureTrace));
+}
+
+// Timeouts, network failures and 5xx responses are worth retrying against another backend
+export function isFailoverError(error: any): boolean {
+  if (!(error instanceof AgentBackendError)) {
+    return false;
+  }
+  if (error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR') {
+    return true;
+  }
+  return error.status !== undefined && error.status >= 500;
+}
+
+// Get the bearer token for agent calls - prefer access token, fallback to ID token for dev/demo purposes
+export async function getAgentAuthToken(): Promise<string | null> {
+  const user = await authService.getUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  try {
+    return await authService.getApiToken();
+  } catch (error) {
+    console.error('Failed to get auth token:', error);
+    throw new Error('Authentication failed - unable to get token');
+  }
+}
+
+// Don't start a long request with a token that would expire before it finishes. Call before
+// getAgentAuthToken() so a renewed token ends up in both the headers and the body.
+export async function ensureAgentTokenValidFor(backend: AgentBackend, timeoutMs: number): Promise<void> {
+  try {
+    await tokenLifecycle.ensureValidFor(timeoutMs);
+  } catch (error) {
+    throw new AgentBackendError((error as Error).message, backend.id, undefined, 'SESSION_EXPIRED');
+  }
+}
+
+// Send the POST through the shared HTTP client and map failures onto AgentBackendError.
+// Agent requests carry their own token and aren't retried here - the registry fails over instead.
+// `read` runs under the request's timeout and cancellation signal.
+async function sendAgentRequest<T>(
+  backend: AgentBackend,
+  url: string,
+  body: any,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  externalSignal: AbortSignal | undefined,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  try {
+    return await httpClient.requestWith(url, {
+      method: 'POST',
+      // Agent calls carry their own token, so add the account audit header here
+      headers: { ...headers, ...getAccountHeaders() },
+      body,
+      timeoutMs,
+      signal: externalSignal,
+      authenticate: false,
+      retries: 0
+    }, response => {
+      console.log(`📊 ${backend.displayName} response status:`, response.status);
+      return read(response);
+    });
+  } catch (error) {
+    throw toAgentBackendError(backend, error);
+  }
+}
+
+function toAgentBackendError(backend: AgentBackend, error: any): AgentBackendError {
+  if (error instanceof AgentBackendError) {
+    return error;
+  }
+
+  if (error instanceof ApiError) {
+    if (error.code === 'TIMEOUT') {
+      console.error(`❌ ${backend.displayName} request timeout:`, error.message);
+    } else if (error.code === 'CANCELLED') {
+      console.log(`🛑 ${backend.displayName} request cancelled`);
+    } else {
+      console.error(`❌ ${backend.displayName} error:`, error.message);
+    }
+    // Keep the HttpClient code so callers can tell session errors from other failures
+    return new AgentBackendError(error.message, backend.id, error.status, error.code, error.requestId);
+  }
+
+  if (error && error.name === 'AbortError') {
+    console.log(`🛑 ${backend.displayName} request cancelled`);
+    return new AgentBackendError('Request cancelled', backend.id, undefined, 'CANCELLED');
+  }
+
+  console.error(`❌ Error calling ${backend.displayName}:`, error);
+  return new AgentBackendError(
+    `${backend.displayName} call failed: ${(error as Error).message}`,
+    backend.id,
+    undefined,
+    'NETWORK_ERROR'
+  );
+}
+
+// POST a JSON body with a timeout, returning the parsed JSON response
+export async function postAgentRequest(
+  backend: AgentBackend,
+  url: string,
+  body: any,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<any> {
+  return sendAgentRequest(backend, url, body, headers, timeoutMs, signal, response => readJsonBody(response));
+}
+
+// POST a JSON body and read the response incrementally.
+// Handles server-sent events, plain chunked text and (for backends that don't stream) a single JSON body.
+export async function streamAgentRequest(
+  backend: AgentBackend,
+  url: string,
+  body: any,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  onChunk: AgentStreamHandler,
+  options: AgentInvokeOptions = {}
+): Promise<AgentResponse> {
+  // JSON replies are read while the request timeout still applies; streams get the idle timer below
+  const sent = await sendAgentRequest(
+    backend,
+    url,
+    body,
+    { ...headers, 'Accept': 'text/event-stream, application/json' },
+    timeoutMs,
+    options.signal,
+    async response => {
+      const type = response.headers.get('Content-Type') || '';
+      return type.indexOf('application/json') !== -1 || !response.body
+        ? { response, data: await readJsonBody(response) }
+        : { response, data: undefined };
+    }
+  );
+  const response = sent.response;
+  const contentType = response.headers.get('Content-Type') || '';
+
+  if (sent.data !== undefined || !response.body) {
+    const result = normalizeAgentResponse(backend.id, sent.data, options.sessionId);
+    onChunk(result.response, result.response);
+    return result;
+  }
+
+  const isEventStream = contentType.indexOf('text/event-stream') !== -1;
+  const reader = response.body.getReader();
+
+  // The request signal only covers the wait for headers - stop reading the body on cancel too
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  if (options.signal) {
+    options.signal.addEventListener('abort', onAbort);
+  }
+
+  // ...and give up when the backend stalls mid-stream for as long as the request timeout
+  let idleTimedOut = false;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  const resetIdleTimer = () => {
+    if (idleTimer !== null) {
+      clearTimeout(idleTimer);
+    }
+    idleTimer = setTimeout(() => {
+      idleTimedOut = true;
+      reader.cancel().catch(() => undefined);
+    }, timeoutMs);
+  };
+  const idleTimeoutError = () => new AgentBackendError(
+    `${backend.displayName} stopped responding for ${Math.round(timeoutMs / 1000)} seconds`,
+    backend.id,
+    undefined,
+    'TIMEOUT'
+  );
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+  let metadata: any = {};
+  const traces: AgentTrace[] = [];
+
+  const appendText = (delta: string) => {
+    if (delta) {
+      fullText += delta;
+      onChunk(delta, fullText);
+    }
+  };
+
+  const handleEvent = (rawEvent: string) => {
+    const data = rawEvent
+      .split(/\r?\n/)
+      .filter(line => line.indexOf('data:') === 0)
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (!data || data === '[DONE]') {
+      return;
+    }
+
+    try {
+      const event = JSON.parse(data);
+      if (typeof event === 'string') {
+        appendText(event);
+      } else if (event && typeof event === 'object') {
+        metadata = { ...metadata, ...event };
+        if (event.trace) {
+          traces.push(event.trace);
+        }
+        appendText(event.delta || event.chunk || event.text || '');
+      }
+    } catch {
+      appendText(data);
+    }
+  };
+
+  try {
+    resetIdleTimer();
+    let chunk = await reader.read();
+    while (!chunk.done) {
+      resetIdleTimer();
+      const decoded = decoder.decode(chunk.value, { stream: true });
+      if (isEventStream) {
+        buffer += decoded;
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+        events.forEach(handleEvent);
+      } else {
+        appendText(decoded);
+      }
+      chunk = await reader.read();
+    }
+
+    if (options.signal && options.signal.aborted) {
+      throw new AgentBackendError('Request cancelled', backend.id, undefined, 'CANCELLED');
+    }
+    if (idleTimedOut) {
+      throw idleTimeoutError();
+    }
+    if (isEventStream && buffer.trim()) {
+      handleEvent(buffer);
+    }
+  } catch (error) {
+    // A cancelled reader may reject rather than finish
+    throw idleTimedOut ? idleTimeoutError() : toAgentBackendError(backend, error);
+  } finally {
+    if (idleTimer !== null) {
+      clearTimeout(idleTimer);
+    }
+    if (options.signal) {
+      options.signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  console.log(`✅ ${backend.displayName} stream complete (${fullText.length} characters)`);
+
+  return {
+    response: fullText || metadata.response || 'Agent response received but no content.',
+    backendId: backend.id,
+    sessionId: metadata.sessionId || options.sessionId,
+    status: metadata.status,
+    mcp_enabled: metadata.mcp_enabled,
+    mcp_tools_count: metadata.mcp_tools_count,
+    citations: metadata.citations,
+    trace: traces.length > 0 ? traces : undefined
+  };
+}
+
+// Normalize the different payload shapes the backends return
+export function normalizeAgentResponse(backendId: string, data: any, sessionId?: string): AgentResponse {
+  // Unwrap API Gateway proxy format where the body is a JSON string
+  let payload = data;
+  if (data && typeof data.body === 'string') {
+    try {
+      payload = JSON.parse(data.body);
+      console.log('📦 Unwrapped API Gateway response body');
+    } catch (e) {
+      console.warn('Could not parse response body as JSON:', e);
+    }
+  }
+
+  if (payload && typeof payload.response === 'string') {
+    return {
+      response: payload.response || 'Agent response received but no content.',
+      backendId,
+      sessionId: payload.sessionId || sessionId,
+      status: payload.status,
+      mcp_enabled: payload.mcp_enabled,
+      mcp_tools_count: payload.mcp_tools_count,
+      citations: payload.citations,
+      trace: payload.trace
+    };
+  }
+
+  if (payload && payload.output) {
+    // AWS SDK format - extract the response text
+    return {
+      response: payload.output.text || 'Response received but no text content',
+      backendId,
+      sessionId: payload.sessionId || sessionId,
+      citations: payload.citations,
+      trace: payload.trace
+    };
+  }
+
+  // Fallback for unexpected response format
+  return {
+    response: JSON.stringify(payload),
+    backendId,
+    sessionId
+  };
+}
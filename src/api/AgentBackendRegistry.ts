@@ -0,0 +1,132 @@
+/*
+ * Agent Backend Registry
+ * Resolves which agent backend handles invocations at runtime
+ */
+
+import { AgentBackend, AgentInvokeOptions, AgentResponse, AgentStreamHandler, isFailoverError } from './AgentBackend';
+import { bedrockAgentClient } from './BedrockAgentClient';
+import { bedrockAgentCoreClient } from './BedrockAgentCoreClient';
+import { lambdaAgentClient } from './LambdaAgentClient';
+
+type AgentEnvironment = 'dev' | 'prod';
+
+// Backend priority chain per environment - later entries are only tried when earlier ones fail over
+const BACKEND_CONFIG: Record<AgentEnvironment, string[]> = {
+  dev: ['bedrock-agentcore', 'lambda', 'bedrock-agent'],
+  prod: ['bedrock-agentcore', 'lambda', 'bedrock-agent']
+};
+
+// localStorage key holding a comma-separated list of backend IDs moved to the front of the chain
+const BACKEND_OVERRIDE_KEY = 'agentBackend';
+
+export class AgentBackendRegistry {
+  private backends: { [id: string]: AgentBackend } = {};
+
+  register(backend: AgentBackend): void {
+    this.backends[backend.id] = backend;
+  }
+
+  get(id: string): AgentBackend | undefined {
+    return this.backends[id];
+  }
+
+  list(): AgentBackend[] {
+    return Object.keys(this.backends).map(id => this.backends[id]);
+  }
+
+  // Resolve the ordered chain of backends: explicit override first, then the environment priority list
+  resolveChain(): AgentBackend[] {
+    const ids = this.getOverride().concat(BACKEND_CONFIG[this.getEnvironment()]);
+
+    const chain: AgentBackend[] = [];
+    ids.forEach(id => {
+      const backend = this.backends[id];
+      if (backend && chain.indexOf(backend) === -1) {
+        chain.push(backend);
+      }
+    });
+
+    if (chain.length === 0) {
+      throw new Error(`No agent backend registered for environment "${this.getEnvironment()}"`);
+    }
+    return chain;
+  }
+
+  // Resolve the primary backend
+  resolve(): AgentBackend {
+    return this.resolveChain()[0];
+  }
+
+  // Invoke the chain in priority order, moving on only for timeouts, network errors and 5xx responses.
+  // With onChunk the response is streamed from backends that support it; once any text has been
+  // rendered we stop failing over so the user never sees two answers spliced together.
+  async invokeWithFailover(
+    prompt: string,
+    options: AgentInvokeOptions = {},
+    onChunk?: AgentStreamHandler
+  ): Promise<AgentResponse> {
+    const chain = this.resolveChain();
+    let lastError: Error | null = null;
+
+    for (let i = 0; i < chain.length; i++) {
+      const backend = chain[i];
+      let receivedText = false;
+      try {
+        console.log(`🔧 Trying agent backend ${i + 1}/${chain.length}: ${backend.displayName}`);
+        if (!onChunk) {
+          return await backend.invoke(prompt, options);
+        }
+
+        const trackChunk: AgentStreamHandler = (delta, fullText) => {
+          receivedText = true;
+          onChunk(delta, fullText);
+        };
+        if (backend.invokeStream) {
+          return await backend.invokeStream(prompt, trackChunk, options);
+        }
+        const result = await backend.invoke(prompt, options);
+        trackChunk(result.response, result.response);
+        return result;
+      } catch (error) {
+        lastError = error as Error;
+        if (receivedText || !isFailoverError(error) || i === chain.length - 1) {
+          throw error;
+        }
+        console.warn(`⚠️ ${backend.displayName} unavailable, failing over:`, lastError.message);
+      }
+    }
+
+    throw lastError || new Error('No agent backend available');
+  }
+
+  setOverride(ids: string[] | null): void {
+    const unknown = (ids || []).filter(id => !this.backends[id]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown agent backend: ${unknown.join(', ')}`);
+    }
+    if (ids && ids.length > 0) {
+      localStorage.setItem(BACKEND_OVERRIDE_KEY, ids.join(','));
+    } else {
+      localStorage.removeItem(BACKEND_OVERRIDE_KEY);
+    }
+  }
+
+  private getOverride(): string[] {
+    try {
+      const value = localStorage.getItem(BACKEND_OVERRIDE_KEY);
+      return value ? value.split(',').map(id => id.trim()).filter(id => !!id) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private getEnvironment(): AgentEnvironment {
+    return typeof window !== 'undefined' && window.location.hostname === 'localhost' ? 'dev' : 'prod';
+  }
+}
+
+// Create a singleton instance with the built-in backends
+export const agentBackendRegistry = new AgentBackendRegistry();
+agentBackendRegistry.register(bedrockAgentCoreClient);
+agentBackendRegistry.register(lambdaAgentClient);
+agentBackendRegistry.register(bedrockAgentClient);
@@ -1,46 +1,19 @@
-import { authService } from '../auth/AuthService';
-
-export interface BedrockAgentResponse {
-  response: string;
-  sessionId?: string;
-  citations?: Array<{
-    generatedResponsePart: {
-      textResponsePart: {
-        text: string;
-        span: {
-          start: number;
-          end: number;
-        };
-      };
-    };
-    retrievedReferences: Array<{
-      content: {
-        text: string;
-      };
-      location: {
-        type: string;
-        s3Location?: {
-          uri: string;
-        };
-      };
-      metadata: Record<string, any>;
-    }>;
-  }>;
-  trace?: {
-    failureTrace?: {
-      failureReason: string;
-      traceId: string;
-    };
-    orchestrationTrace?: {
-      invocationInput?: any;
-      modelInvocationInput?: any;
-      modelInvocationOutput?: any;
-      observation?: any;
-      rationale?: {
-        text: string;
-      };
-    };
-  };
+import {
+  AgentBackend,
+  AgentCitation,
+  AgentHealth,
+  AgentInvokeOptions,
+  AgentResponse,
+  AgentTrace,
+  ensureAgentTokenValidFor,
+  getAgentAuthToken,
+  normalizeAgentResponse,
+  postAgentRequest
+} from './AgentBackend';
+
+export interface BedrockAgentResponse extends AgentResponse {
+  citations?: AgentCitation[];
+  trace?: AgentTrace | AgentTrace[];
 }
 
 export interface BedrockAgentRequest {
@@ -50,93 +23,49 @@ export interface BedrockAgentRequest {
   endSession?: boolean;
 }
 
-export class BedrockAgentClient {
+export class BedrockAgentClient implements AgentBackend {
+  readonly id = 'bedrock-agent';
+  readonly displayName = 'Bedrock Agent';
+
   private baseUrl: string;
   private apiKey?: string;
+  private timeoutMs: number;
 
-  constructor(baseUrl?: string, apiKey?: string) {
+  constructor(baseUrl?: string, apiKey?: string, timeoutMs?: number) {
     this.baseUrl = baseUrl || 'https://vhuxqurpo1.execute-api.us-west-2.amazonaws.com/prod';
     this.apiKey = apiKey;
+    // API Gateway integrations are capped at 29 seconds
+    this.timeoutMs = timeoutMs || 30000;
   }
 
-  async invoke(input: string, sessionId?: string, enableTrace = false): Promise<BedrockAgentResponse> {
-    const user = await authService.getUser();
-    if (!user) {
-      throw new Error('User not authenticated');
-    }
-
+  async invoke(input: string, options: AgentInvokeOptions = {}): Promise<BedrockAgentResponse> {
     const requestBody: BedrockAgentRequest = {
       input,
-      sessionId,
-      enableTrace
+      sessionId: options.sessionId,
+      enableTrace: options.enableTrace || false,
+      endSession: options.endSession
     };
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json'
     };
 
-    // Add authentication - prefer API key, fallback to access token
+    // Add authentication - prefer API key (no sign-in needed), fallback to bearer token
     if (this.apiKey) {
       headers['X-Api-Key'] = this.apiKey;
     } else {
-      const accessToken = await authService.getAccessToken();
-      if (accessToken) {
-        headers['Authorization'] = `Bearer ${accessToken}`;
-      } else {
-        // Fallback to ID token for dev/demo purposes
-        const idToken = await authService.getIdToken();
-        if (idToken) {
-          headers['Authorization'] = `Bearer ${idToken}`;
-        }
+      await ensureAgentTokenValidFor(this, this.timeoutMs);
+      const authToken = await getAgentAuthToken();
+      if (authToken) {
+        headers['Authorization'] = `Bearer ${authToken}`;
       }
     }
 
-    const response = await fetch(`${this.baseUrl}/agent/invoke`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      
-      try {
-        const errorData = JSON.parse(errorText);
-        errorMessage = errorData.message || errorData.error || errorMessage;
-      } catch {
-        // If can't parse JSON, use the raw text
-        if (errorText) {
-          errorMessage = errorText;
-        }
-      }
-      
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    
-    // Handle both direct response and wrapped response formats
-    if (data.response) {
-      return data;
-    } else if (data.output) {
-      // AWS SDK format - extract the response text
-      return {
-        response: data.output.text || 'Response received but no text content',
-        sessionId: data.sessionId,
-        citations: data.citations,
-        trace: data.trace
-      };
-    } else {
-      // Fallback for unexpected response format
-      return {
-        response: JSON.stringify(data),
-        sessionId
-      };
-    }
+    const data = await postAgentRequest(this, `${this.baseUrl}/agent/invoke`, requestBody, headers, this.timeoutMs, options.signal);
+    return normalizeAgentResponse(this.id, data, options.sessionId);
   }
 
-  async health(): Promise<{ status: string; timestamp: string; version?: string }> {
+  async health(): Promise<AgentHealth> {
     const response = await fetch(`${this.baseUrl}/agent/health`, {
       method: 'GET',
       headers: {
@@ -188,7 +117,7 @@ ${emailData.body}
 
 Please provide a brief summary in 2-3 sentences.`;
 
-    return this.invoke(emailContext, sessionId, true);
+    return this.invoke(emailContext, { sessionId, enableTrace: true });
   }
 
   // Convenience method for seller/business intelligence
@@ -204,9 +133,9 @@ ${JSON.stringify(data, null, 2)}
 Please analyze the provided business data and respond to the query with insights, trends, and actionable recommendations.
 `.trim();
 
-    return this.invoke(context, sessionId, true);
+    return this.invoke(context, { sessionId, enableTrace: true });
   }
 }
 
 // Singleton instance
-export const bedrockAgentClient = new BedrockAgentClient();
\ No newline at end of file
+export const bedrockAgentClient = new BedrockAgentClient();
@@ -0,0 +1,168 @@
+/*
+ * Agent Conversation Service
+ * Keeps multi-turn agent threads per account and mailbox item and reuses the agent session across turns
+ */
+
+import { authService } from '../auth/AuthService';
+import { AgentCitation, AgentResponse, AgentStreamHandler, AgentTrace } from './AgentBackend';
+import { agentBackendRegistry } from './AgentBackendRegistry';
+
+export interface ConversationTurn {
+  role: 'user' | 'agent';
+  text: string;
+  timestamp: string;
+  backendId?: string;
+  citations?: AgentCitation[];
+  trace?: AgentTrace | AgentTrace[];
+}
+
+export interface Conversation {
+  itemKey: string;
+  sessionId: string;
+  turns: ConversationTurn[];
+  updatedAt: string;
+}
+
+// localStorage key prefix for persisted threads, followed by the account and item
+const STORAGE_PREFIX = 'agentConversation.';
+
+// Keep the stored thread bounded so localStorage doesn't fill up on long chats
+const MAX_STORED_TURNS = 50;
+
+export class ConversationService {
+  constructor() {
+    // A signed-out account's threads go with it
+    authService.on('accountRemoved', sub => this.clearAccount(sub));
+  }
+
+  // Load the thread for a mailbox item, starting a new one if none is stored
+  getConversation(itemKey: string): Conversation {
+    try {
+      const stored = localStorage.getItem(this.storageKey(itemKey)) || this.migrateLegacyThread(itemKey);
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not restore conversation:', error);
+    }
+
+    return {
+      itemKey,
+      sessionId: this.createSessionId(),
+      turns: [],
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  // Send a message in the item's thread, reusing its agent session
+  async sendMessage(
+    itemKey: string,
+    message: string,
+    onChunk?: AgentStreamHandler,
+    signal?: AbortSignal
+  ): Promise<AgentResponse> {
+    const conversation = this.getConversation(itemKey);
+    const sentAt = new Date().toISOString();
+
+    const response = await agentBackendRegistry.invokeWithFailover(
+      message,
+      { sessionId: conversation.sessionId, enableTrace: true, signal },
+      onChunk
+    );
+
+    // Backends may assign their own session ID - keep it for the next turn
+    if (response.sessionId) {
+      conversation.sessionId = response.sessionId;
+    }
+    // The message is stored only with its reply, so a failed or cancelled call leaves no orphan turn
+    conversation.turns.push({ role: 'user', text: message, timestamp: sentAt });
+    conversation.turns.push({
+      role: 'agent',
+      text: response.response,
+      timestamp: new Date().toISOString(),
+      backendId: response.backendId,
+      citations: response.citations,
+      trace: response.trace
+    });
+    this.save(conversation);
+
+    return response;
+  }
+
+  // End the agent session and clear the stored thread
+  async endConversation(itemKey: string): Promise<void> {
+    const conversation = this.getConversation(itemKey);
+    localStorage.removeItem(this.storageKey(itemKey));
+
+    if (conversation.turns.length === 0) {
+      return;
+    }
+
+    // Only the backend that holds the session can end it - another one would start a new session
+    const lastAgentTurn = conversation.turns.filter(turn => turn.role === 'agent' && turn.backendId).pop();
+    const backend = lastAgentTurn ? agentBackendRegistry.get(lastAgentTurn.backendId as string) : undefined;
+    if (!backend) {
+      return;
+    }
+
+    try {
+      console.log(`🔚 Ending ${backend.displayName} session:`, conversation.sessionId);
+      await backend.invoke('End of conversation.', {
+        sessionId: conversation.sessionId,
+        endSession: true
+      });
+    } catch (error) {
+      // The local thread is already cleared; the agent session will expire on its own
+      console.warn('⚠️ Failed to end agent session:', error);
+    }
+  }
+
+  // Remove every stored thread of an account
+  clearAccount(sub: string): void {
+    try {
+      const prefix = `${STORAGE_PREFIX}${sub}.`;
+      Object.keys(localStorage)
+        .filter(key => key.indexOf(prefix) === 0)
+        .forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      console.warn('⚠️ Could not clear conversations:', error);
+    }
+  }
+
+  // Threads saved before they were kept per account move to the first signed-in account that opens the item
+  private migrateLegacyThread(itemKey: string): string | null {
+    const legacyKey = `${STORAGE_PREFIX}${itemKey}`;
+    const stored = localStorage.getItem(legacyKey);
+    if (!stored || !authService.getAuthState().user) {
+      return null;
+    }
+    localStorage.setItem(this.storageKey(itemKey), stored);
+    localStorage.removeItem(legacyKey);
+    console.log('📦 Moved conversation to the signed-in account:', itemKey);
+    return stored;
+  }
+
+  private storageKey(itemKey: string): string {
+    const user = authService.getAuthState().user;
+    return `${STORAGE_PREFIX}${user ? user.sub : 'anonymous'}.${itemKey}`;
+  }
+
+  private save(conversation: Conversation): void {
+    conversation.updatedAt = new Date().toISOString();
+    conversation.turns = conversation.turns.slice(-MAX_STORED_TURNS);
+    try {
+      localStorage.setItem(this.storageKey(conversation.itemKey), JSON.stringify(conversation));
+    } catch (error) {
+      console.warn('⚠️ Could not persist conversation:', error);
+    }
+  }
+
+  // Bedrock AgentCore requires session IDs of at least 33 characters
+  private createSessionId(): string {
+    const random = Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2);
+    return `session-${Date.now()}-${random}`;
+  }
+}
+
+// Create a singleton instance
+export const conversationService = new ConversationService();
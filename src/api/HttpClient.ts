@@ -0,0 +1,348 @@
+/*
+ * Shared HTTP Client
+ * Retries with exponential backoff and jitter (honouring Retry-After), per-call timeout and cancellation,
+ * token renewal on 401, and a normalized ApiError for every failure
+ */
+
+import { authService } from '../auth/AuthService';
+import { logger } from '../auth/Logger';
+
+export type ApiErrorCode =
+  | 'HTTP_ERROR'
+  | 'BAD_REQUEST'
+  | 'SESSION_EXPIRED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'CANCELLED';
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status?: number,
+    public requestId?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // Worth trying again later (e.g. queueing offline writes)
+  get retryable(): boolean {
+    return this.code === 'RATE_LIMITED' || this.code === 'SERVER_ERROR' ||
+      this.code === 'TIMEOUT' || this.code === 'NETWORK_ERROR';
+  }
+}
+
+export interface HttpRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string | undefined>;
+  body?: any;                                // Objects are sent as JSON
+  timeoutMs?: number;
+  signal?: AbortSignal;                      // Cancels the request (and any pending retry) when aborted
+  retries?: number;                          // Defaults to 3 for GET/PUT/DELETE and idempotency-keyed requests, 0 otherwise
+  authenticate?: boolean;                    // Attach the bearer token and renew it on 401 (default true)
+  getToken?: () => Promise<string | null>;   // Defaults to the access token, falling back to the ID token
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10000;
+const RETRY_AFTER_MAX_MS = 30000;
+
+// Response headers API Gateway and Lambda use for request IDs
+const REQUEST_ID_HEADERS = ['x-amzn-requestid', 'x-amz-request-id', 'x-request-id', 'x-amz-apigw-id'];
+
+// Abort signal combining the request timeout with an optional caller-provided signal
+function createRequestSignal(timeoutMs: number, externalSignal?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const onExternalAbort = () => controller.abort();
+  if (externalSignal) {
+    if (externalSignal.aborted) {
+      controller.abort();
+    } else {
+      externalSignal.addEventListener('abort', onExternalAbort);
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timeoutId);
+      if (externalSignal) {
+        externalSignal.removeEventListener('abort', onExternalAbort);
+      }
+    }
+  };
+}
+
+// Header naming the signed-in account (its sub) for the API's audit log. Endpoints must list it in
+// Access-Control-Allow-Headers, or the browser blocks the request at preflight.
+export const ACCOUNT_ID_HEADER = 'X-Account-Id';
+
+// Audit headers for the active account; empty when signed out
+export function getAccountHeaders(): Record<string, string> {
+  const user = authService.getAuthState().user;
+  return user ? { [ACCOUNT_ID_HEADER]: user.sub } : {};
+}
+
+// Access token from the code flow; the ID token is the fallback when the provider issues none
+function getDefaultToken(): Promise<string | null> {
+  return authService.getApiToken();
+}
+
+export function getRequestId(response: Response): string | undefined {
+  for (let i = 0; i < REQUEST_ID_HEADERS.length; i++) {
+    const value = response.headers.get(REQUEST_ID_HEADERS[i]);
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// Build an ApiError from a failed response, preferring the message and request ID in the body
+export async function toApiError(response: Response): Promise<ApiError> {
+  const errorText = await response.text().catch(() => '');
+  let message = '';
+  let requestId = getRequestId(response);
+
+  try {
+    const errorData = JSON.parse(errorText);
+    message = errorData.message || errorData.error || '';
+    requestId = requestId || errorData.requestId || errorData.request_id;
+  } catch {
+    // If can't parse JSON, use the raw text
+    message = errorText;
+  }
+
+  const status = response.status;
+  let code: ApiErrorCode = 'HTTP_ERROR';
+  if (status === 401) {
+    code = 'SESSION_EXPIRED';
+    message = 'Your session has expired. Please sign in again.';
+  } else if (status === 403) {
+    code = 'FORBIDDEN';
+    message = message || 'Access denied. Your session may have expired or you may not have permission. Please sign in again.';
+  } else if (status === 404) {
+    code = 'NOT_FOUND';
+  } else if (status === 429) {
+    code = 'RATE_LIMITED';
+    message = message || 'Too many requests. Please wait a moment and try again.';
+  } else if (status >= 500) {
+    code = 'SERVER_ERROR';
+    message = message ? `Server error: ${message}` : '';
+  } else if (status >= 400) {
+    code = 'BAD_REQUEST';
+  }
+
+  return new ApiError(message || `HTTP ${status}: ${response.statusText}`, code, status, requestId);
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(response: Response): number | null {
+  const value = response.headers.get('Retry-After');
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  const delay = isFinite(seconds) ? seconds * 1000 : new Date(value).getTime() - Date.now();
+  return isFinite(delay) ? Math.min(Math.max(delay, 0), RETRY_AFTER_MAX_MS) : null;
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, attempt));
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(new ApiError('Request cancelled', 'CANCELLED'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new ApiError('Request cancelled', 'CANCELLED'));
+    };
+    const timeoutId = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      resolve();
+    }, ms);
+    if (signal) {
+      signal.addEventListener('abort', onAbort);
+    }
+  });
+}
+
+// Parse a JSON body; aborts (timeout/cancel) propagate so the caller can map them
+export async function readJsonBody<T = any>(response: Response): Promise<T> {
+  if (response.status === 204) {
+    return null as any;
+  }
+  try {
+    return await response.json();
+  } catch (error) {
+    if (error && (error as Error).name === 'AbortError') {
+      throw error;
+    }
+    throw new ApiError('Response was not valid JSON', 'HTTP_ERROR', response.status, getRequestId(response));
+  }
+}
+
+export class HttpClient {
+  // Send a request and return the successful response (for streaming bodies - the timeout and
+  // cancellation stop applying once the headers arrive)
+  request(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+    return this.requestWith(url, options, response => Promise.resolve(response));
+  }
+
+  // Send a request and read the successful response with `read`, still under the request's
+  // timeout and cancellation signal
+  async requestWith<T>(url: string, options: HttpRequestOptions, read: (response: Response) => Promise<T>): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
+    const headers = { ...(options.headers || {}) };
+    const idempotent = method === 'GET' || method === 'PUT' || method === 'DELETE' ||
+      Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key');
+    const maxRetries = options.retries !== undefined ? options.retries : (idempotent ? DEFAULT_RETRIES : 0);
+    const authenticate = options.authenticate !== false;
+    const getToken = options.getToken || getDefaultToken;
+    const fullUrl = this.buildUrl(url, options.query);
+
+    let body: BodyInit | undefined;
+    if (options.body !== undefined) {
+      body = typeof options.body === 'string' ? options.body : JSON.stringify(options.body);
+      if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+
+    let renewed = false;
+    for (let attempt = 0; ; attempt++) {
+      if (authenticate) {
+        const token = await getToken();
+        if (!token) {
+          throw new ApiError('Your session has expired and could not be renewed. Please sign in again to continue.', 'SESSION_EXPIRED');
+        }
+        headers['Authorization'] = `Bearer ${token}`;
+        Object.assign(headers, getAccountHeaders());
+      }
+
+      const { response, result } = await this.send(fullUrl, method, headers, body, options, read);
+      if (response.ok) {
+        return result as T;
+      }
+
+      // Renew the token once and try again
+      if (response.status === 401 && authenticate && !renewed) {
+        logger.log('🔄 Got 401, renewing token and retrying...');
+        renewed = true;
+        try {
+          await authService.renewToken();
+        } catch (renewError) {
+          logger.error('❌ Token renewal failed during retry:', renewError);
+          throw new ApiError(
+            'Your session has expired and could not be renewed. Please sign in again.',
+            'SESSION_EXPIRED',
+            401,
+            getRequestId(response)
+          );
+        }
+        attempt--;
+        continue;
+      }
+
+      const error = await toApiError(response);
+      if ((error.code !== 'RATE_LIMITED' && error.code !== 'SERVER_ERROR') || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const delay = parseRetryAfter(response);
+      const waitMs = delay !== null ? delay : backoffDelay(attempt);
+      logger.warn(`⏳ ${method} ${url} failed with ${response.status}, retry ${attempt + 1}/${maxRetries} in ${Math.round(waitMs)}ms`);
+      await wait(waitMs, options.signal);
+    }
+  }
+
+  json<T = any>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+    return this.requestWith(url, {
+      ...options,
+      headers: { 'Accept': 'application/json', ...(options.headers || {}) }
+    }, response => readJsonBody<T>(response));
+  }
+
+  get<T = any>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+    return this.json<T>(url, { ...options, method: 'GET' });
+  }
+
+  post<T = any>(url: string, body: any, options: HttpRequestOptions = {}): Promise<T> {
+    return this.json<T>(url, { ...options, method: 'POST', body });
+  }
+
+  patch<T = any>(url: string, body: any, options: HttpRequestOptions = {}): Promise<T> {
+    return this.json<T>(url, { ...options, method: 'PATCH', body });
+  }
+
+  // One attempt, mapping timeouts, cancellation and network failures onto ApiError.
+  // A successful response is read before the timeout and abort listener are released.
+  private async send<T>(
+    url: string,
+    method: string,
+    headers: Record<string, string>,
+    body: BodyInit | undefined,
+    options: HttpRequestOptions,
+    read: (response: Response) => Promise<T>
+  ): Promise<{ response: Response; result?: T }> {
+    const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+    const request = createRequestSignal(timeoutMs, options.signal);
+    try {
+      const response = await fetch(url, { method, headers, body, mode: 'cors', signal: request.signal });
+      return response.ok ? { response, result: await read(response) } : { response };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if ((error as Error).name === 'AbortError') {
+        if (request.timedOut()) {
+          throw new ApiError(`Request timed out after ${Math.round(timeoutMs / 1000)} seconds`, 'TIMEOUT');
+        }
+        throw new ApiError('Request cancelled', 'CANCELLED');
+      }
+      // fetch (or reading the body) only rejects on network failure
+      throw new ApiError(`Network error: ${(error as Error).message}`, 'NETWORK_ERROR');
+    } finally {
+      request.clear();
+    }
+  }
+
+  private buildUrl(url: string, query?: Record<string, string | undefined>): string {
+    if (!query) {
+      return url;
+    }
+    const params = new URLSearchParams();
+    Object.keys(query).forEach(key => {
+      if (query[key] !== undefined && query[key] !== '') {
+        params.append(key, query[key] as string);
+      }
+    });
+    const queryString = params.toString();
+    return queryString ? `${url}${url.indexOf('?') === -1 ? '?' : '&'}${queryString}` : url;
+  }
+}
+
+// Create a singleton instance
+export const httpClient = new HttpClient();
@@ -0,0 +1,102 @@
+/*
+ * Marketplace Registry
+ * Maps marketplace IDs to their currency, locale and display name so metrics format per marketplace
+ */
+
+export interface Marketplace {
+  id: string;
+  code: string;        // Short country code, e.g. "JP"
+  displayName: string;
+  currency: string;    // ISO 4217
+  locale: string;      // BCP 47
+  flag: string;
+}
+
+// The seller-search-metrics API defaults to the JP marketplace when none is given
+export const DEFAULT_MARKETPLACE_ID = 'A1VC38T7YXB528';
+
+const MARKETPLACES: Marketplace[] = [
+  // North America
+  { id: 'ATVPDKIKX0DER', code: 'US', displayName: 'Amazon.com', currency: 'USD', locale: 'en-US', flag: '🇺🇸' },
+  { id: 'A2EUQ1WTGCTBG2', code: 'CA', displayName: 'Amazon.ca', currency: 'CAD', locale: 'en-CA', flag: '🇨🇦' },
+  { id: 'A1AM78C64UM0Y8', code: 'MX', displayName: 'Amazon.com.mx', currency: 'MXN', locale: 'es-MX', flag: '🇲🇽' },
+  { id: 'A2Q3Y263D00KWC', code: 'BR', displayName: 'Amazon.com.br', currency: 'BRL', locale: 'pt-BR', flag: '🇧🇷' },
+  // Europe
+  { id: 'A1F83G8C2ARO7P', code: 'UK', displayName: 'Amazon.co.uk', currency: 'GBP', locale: 'en-GB', flag: '🇬🇧' },
+  { id: 'A1PA6795UKMFR9', code: 'DE', displayName: 'Amazon.de', currency: 'EUR', locale: 'de-DE', flag: '🇩🇪' },
+  { id: 'A13V1IB3VIYZZH', code: 'FR', displayName: 'Amazon.fr', currency: 'EUR', locale: 'fr-FR', flag: '🇫🇷' },
+  { id: 'APJ6JRA9NG5V4', code: 'IT', displayName: 'Amazon.it', currency: 'EUR', locale: 'it-IT', flag: '🇮🇹' },
+  { id: 'A1RKKUPIHCS9HS', code: 'ES', displayName: 'Amazon.es', currency: 'EUR', locale: 'es-ES', flag: '🇪🇸' },
+  { id: 'A1805IZSGTT6HS', code: 'NL', displayName: 'Amazon.nl', currency: 'EUR', locale: 'nl-NL', flag: '🇳🇱' },
+  { id: 'A2NODRKZP88ZB9', code: 'SE', displayName: 'Amazon.se', currency: 'SEK', locale: 'sv-SE', flag: '🇸🇪' },
+  { id: 'A1C3SOZRARQ6R3', code: 'PL', displayName: 'Amazon.pl', currency: 'PLN', locale: 'pl-PL', flag: '🇵🇱' },
+  { id: 'A33AVAJ2PDY3EV', code: 'TR', displayName: 'Amazon.com.tr', currency: 'TRY', locale: 'tr-TR', flag: '🇹🇷' },
+  { id: 'A2VIGQ35RCS4UG', code: 'AE', displayName: 'Amazon.ae', currency: 'AED', locale: 'en-AE', flag: '🇦🇪' },
+  { id: 'A17E79C6D8DWNP', code: 'SA', displayName: 'Amazon.sa', currency: 'SAR', locale: 'ar-SA', flag: '🇸🇦' },
+  { id: 'A21TJRUUN4KGV', code: 'IN', displayName: 'Amazon.in', currency: 'INR', locale: 'en-IN', flag: '🇮🇳' },
+  // Far East
+  { id: 'A1VC38T7YXB528', code: 'JP', displayName: 'Amazon.co.jp', currency: 'JPY', locale: 'ja-JP', flag: '🇯🇵' },
+  { id: 'A39IBJ37TRP1C6', code: 'AU', displayName: 'Amazon.com.au', currency: 'AUD', locale: 'en-AU', flag: '🇦🇺' },
+  { id: 'A19VAU5U5O7RUS', code: 'SG', displayName: 'Amazon.sg', currency: 'SGD', locale: 'en-SG', flag: '🇸🇬' }
+];
+
+export class MarketplaceRegistry {
+  private marketplaces: { [id: string]: Marketplace } = {};
+
+  constructor(marketplaces: Marketplace[]) {
+    marketplaces.forEach(marketplace => this.register(marketplace));
+  }
+
+  register(marketplace: Marketplace): void {
+    this.marketplaces[marketplace.id] = marketplace;
+  }
+
+  get(id: string): Marketplace | undefined {
+    return this.marketplaces[id];
+  }
+
+  list(): Marketplace[] {
+    return Object.keys(this.marketplaces).map(id => this.marketplaces[id]);
+  }
+
+  // First known marketplace among the candidates, falling back to the API default
+  resolve(...ids: Array<string | null | undefined>): Marketplace {
+    const known = ids.filter(id => !!id && !!this.marketplaces[id as string])[0];
+    return this.marketplaces[known || DEFAULT_MARKETPLACE_ID];
+  }
+
+  describe(id: string): string {
+    const marketplace = this.marketplaces[id];
+    return marketplace ? `${marketplace.flag} ${marketplace.displayName}` : id;
+  }
+
+  // Amounts in the marketplace currency unless the value carries its own
+  formatCurrency(amount: number, marketplace: Marketplace, currency?: string | null): string {
+    try {
+      return amount.toLocaleString(marketplace.locale, {
+        style: 'currency',
+        currency: currency || marketplace.currency,
+        maximumFractionDigits: Math.abs(amount) >= 100 ? 0 : 2
+      });
+    } catch {
+      return `${currency || marketplace.currency} ${amount.toLocaleString()}`;
+    }
+  }
+
+  formatNumber(value: number, marketplace: Marketplace): string {
+    return value.toLocaleString(marketplace.locale);
+  }
+
+  // Fractions shown as percentages, e.g. 0.853 -> "85.3%" (or "85,3 %" in de-DE)
+  formatPercent(fraction: number, marketplace: Marketplace, signed = false): string {
+    const formatted = fraction.toLocaleString(marketplace.locale, {
+      style: 'percent',
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1
+    });
+    return signed && fraction > 0 ? `+${formatted}` : formatted;
+  }
+}
+
+// Create a singleton instance with the known marketplaces
+export const marketplaceRegistry = new MarketplaceRegistry(MARKETPLACES);
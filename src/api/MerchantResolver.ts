@@ -0,0 +1,117 @@
+/*
+ * Merchant Resolver
+ * Works out which merchant the open email is about: sender lookup, IDs in the subject/body, or a manual pick
+ */
+
+import { ApiError, httpClient } from './HttpClient';
+
+export type MerchantSource = 'sender' | 'subject' | 'body' | 'manual';
+
+export interface ResolvedMerchant {
+  merchantId: string;
+  source: MerchantSource;
+  merchantName?: string;
+}
+
+export interface MerchantContext {
+  senderEmail?: string;
+  subject?: string;
+  body?: string;
+}
+
+// API configuration
+const API_CONFIG = {
+  baseUrl: (typeof window !== 'undefined' && window.location.hostname === 'localhost')
+    ? '/api/merchant-lookup'  // Use webpack proxy during development on localhost
+    : 'https://bwzo9wnhy3.execute-api.us-west-2.amazonaws.com/beta/merchant-lookup'
+};
+
+// localStorage key for the recently used merchants shown in the picker
+const RECENT_MERCHANTS_KEY = 'recentMerchants';
+const MAX_RECENT_MERCHANTS = 8;
+
+// Merchant IDs are written as "Merchant ID: 7489395755", "merchantId=7489395755", "MID 7489395755", ...
+const MERCHANT_ID_PATTERN = /\b(?:merchant[\s_-]*id|merchant|seller[\s_-]*id|mid)\s*[:=#]?\s*(\d{6,14})\b/i;
+
+export class MerchantResolver {
+  // Try each source in order of confidence: sender lookup, then subject, then body
+  async resolve(context: MerchantContext): Promise<ResolvedMerchant | null> {
+    if (context.senderEmail) {
+      const fromSender = await this.lookupBySender(context.senderEmail);
+      if (fromSender) {
+        return fromSender;
+      }
+    }
+
+    const fromSubject = MerchantResolver.findMerchantId(context.subject);
+    if (fromSubject) {
+      return { merchantId: fromSubject, source: 'subject' };
+    }
+
+    const fromBody = MerchantResolver.findMerchantId(context.body);
+    if (fromBody) {
+      return { merchantId: fromBody, source: 'body' };
+    }
+
+    return null;
+  }
+
+  // Map a sender email to a merchant via the lookup endpoint; unknown senders resolve to null
+  async lookupBySender(senderEmail: string): Promise<ResolvedMerchant | null> {
+    try {
+      // Best-effort lookup - don't hold up merchant detection with retries
+      const data = await httpClient.get(API_CONFIG.baseUrl, {
+        query: { email: senderEmail },
+        retries: 0
+      });
+      const merchantId = data.merchantId || data.merchant_id;
+      if (!merchantId) {
+        return null;
+      }
+      return {
+        merchantId: String(merchantId),
+        source: 'sender',
+        merchantName: data.merchantName || data.merchant_name
+      };
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'NOT_FOUND') {
+        console.log('🔍 No merchant mapped to sender:', senderEmail);
+        return null;
+      }
+      // Lookup is best-effort - fall back to the subject/body or the manual picker
+      console.warn('⚠️ Merchant lookup failed:', (error as Error).message);
+      return null;
+    }
+  }
+
+  static findMerchantId(text?: string): string | null {
+    if (!text) {
+      return null;
+    }
+    const match = text.match(MERCHANT_ID_PATTERN);
+    return match ? match[1] : null;
+  }
+
+  getRecentMerchants(): ResolvedMerchant[] {
+    try {
+      const stored = localStorage.getItem(RECENT_MERCHANTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Remember a merchant that was used for a lookup, most recent first
+  addRecentMerchant(merchant: ResolvedMerchant): void {
+    const recent = this.getRecentMerchants().filter(entry => entry.merchantId !== merchant.merchantId);
+    recent.unshift(merchant);
+    try {
+      localStorage.setItem(RECENT_MERCHANTS_KEY, JSON.stringify(recent.slice(0, MAX_RECENT_MERCHANTS)));
+    } catch (error) {
+      console.warn('⚠️ Could not save recent merchants:', error);
+    }
+  }
+}
+
+// Create a singleton instance
+export const merchantResolver = new MerchantResolver();
@@ -0,0 +1,115 @@
+/*
+ * Metric Snapshot Store
+ * Keeps a daily snapshot of key seller metrics per account, merchant and marketplace so trends can be charted locally.
+ * Snapshots are evicted when their account signs out.
+ */
+
+import { authService } from '../auth/AuthService';
+import { SellerInfo } from './SellerMetricsSchema';
+
+export interface MetricSnapshot {
+  date: string; // YYYY-MM-DD
+  totalGms: number | null;
+  totalOrderedUnits: number | null;
+  buyBoxWinRate: number | null;
+}
+
+export type SnapshotMetric = 'totalGms' | 'totalOrderedUnits' | 'buyBoxWinRate';
+
+export interface TrendPoint {
+  date: string;
+  value: number;
+}
+
+// localStorage key prefix, followed by account, merchant and marketplace
+const STORAGE_PREFIX = 'sellerMetricSnapshots.';
+
+// Roughly six months of daily snapshots
+const MAX_SNAPSHOTS = 180;
+
+export class MetricSnapshotStore {
+  constructor() {
+    // Same lifetime as the seller history cache; clearing everything also removes snapshots
+    // saved before they were kept per account
+    authService.on('accountRemoved', sub => this.clear(sub));
+    authService.on('userSignedOut', () => this.clear());
+  }
+
+  // Record today's values; a later fetch on the same day replaces the earlier one
+  record(
+    merchantId: string,
+    marketplaceId: string | null,
+    sellerInfo: SellerInfo,
+    userSub: string | null = this.getUserSub()
+  ): MetricSnapshot[] {
+    const key = userSub ? this.storageKey(userSub, merchantId, marketplaceId) : null;
+    if (!key) {
+      return [];
+    }
+    const snapshot: MetricSnapshot = {
+      date: new Date().toISOString().slice(0, 10),
+      totalGms: sellerInfo.totalGms ? sellerInfo.totalGms.amount : null,
+      totalOrderedUnits: sellerInfo.totalOrderedUnits,
+      buyBoxWinRate: sellerInfo.buyBoxWinRate
+    };
+
+    const snapshots = this.getSnapshots(merchantId, marketplaceId)
+      .filter(existing => existing.date !== snapshot.date)
+      .concat([snapshot])
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-MAX_SNAPSHOTS);
+
+    try {
+      localStorage.setItem(key, JSON.stringify(snapshots));
+    } catch (error) {
+      console.warn('⚠️ Could not save metric snapshot:', error);
+    }
+    return snapshots;
+  }
+
+  getSnapshots(merchantId: string, marketplaceId: string | null): MetricSnapshot[] {
+    const userSub = this.getUserSub();
+    if (!userSub) {
+      return [];
+    }
+    const key = this.storageKey(userSub, merchantId, marketplaceId);
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Oldest-first series for one metric, skipping days it wasn't reported
+  getSeries(merchantId: string, marketplaceId: string | null, metric: SnapshotMetric): TrendPoint[] {
+    return this.getSnapshots(merchantId, marketplaceId)
+      .filter(snapshot => snapshot[metric] !== null && snapshot[metric] !== undefined)
+      .map(snapshot => ({ date: snapshot.date, value: snapshot[metric] as number }));
+  }
+
+  // Clear one account's snapshots, or all of them
+  clear(userSub?: string): void {
+    const prefix = userSub ? `${STORAGE_PREFIX}${userSub}.` : STORAGE_PREFIX;
+    try {
+      Object.keys(localStorage)
+        .filter(key => key.indexOf(prefix) === 0)
+        .forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      console.warn('⚠️ Could not clear metric snapshots:', error);
+    }
+  }
+
+  // Snapshots always belong to an account - none are kept while signed out
+  private getUserSub(): string | null {
+    const user = authService.getAuthState().user;
+    return user ? user.sub : null;
+  }
+
+  private storageKey(userSub: string, merchantId: string, marketplaceId: string | null): string {
+    return `${STORAGE_PREFIX}${userSub}.${merchantId}.${marketplaceId || 'default'}`;
+  }
+}
+
+// Create a singleton instance
+export const metricSnapshotStore = new MetricSnapshotStore();
@@ -0,0 +1,98 @@
+/*
+ * Seller History Cache
+ * Session cache of seller-search-metrics responses keyed by account, merchant and marketplace.
+ * Each signed-in account keeps its own entries; they are evicted when the account signs out.
+ */
+
+import { authService } from '../auth/AuthService';
+
+export interface CachedSellerHistory {
+  data: any;          // Raw response - decoded on read so schema changes apply to cached data too
+  fetchedAt: number;
+  userSub: string;
+}
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+// sessionStorage key prefix, followed by account, merchant and marketplace
+const STORAGE_PREFIX = 'sellerHistoryCache.';
+
+// Fresh entries are served as-is; stale ones are served while a background refresh runs
+export const CACHE_FRESH_MS = 5 * 60 * 1000;
+export const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export class SellerHistoryCache {
+  constructor() {
+    // Drop an account's cached seller data when it signs out, and everything once no account is left
+    authService.on('accountRemoved', sub => this.clear(sub));
+    authService.on('userSignedOut', () => this.clear());
+  }
+
+  get(merchantId: string, marketplaceId: string | null): CachedSellerHistory | null {
+    const userSub = this.getUserSub();
+    if (!userSub) {
+      return null;
+    }
+    try {
+      const key = this.storageKey(userSub, merchantId, marketplaceId);
+      const stored = sessionStorage.getItem(key);
+      if (!stored) {
+        return null;
+      }
+      const entry: CachedSellerHistory = JSON.parse(stored);
+      if (entry.userSub !== userSub || this.getFreshness(entry) === 'expired') {
+        sessionStorage.removeItem(key);
+        return null;
+      }
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  // userSub: the account the data was fetched for (defaults to the active one)
+  set(merchantId: string, marketplaceId: string | null, data: any, userSub: string | null = this.getUserSub()): void {
+    if (!userSub) {
+      return;
+    }
+    const entry: CachedSellerHistory = { data, fetchedAt: Date.now(), userSub };
+    try {
+      sessionStorage.setItem(this.storageKey(userSub, merchantId, marketplaceId), JSON.stringify(entry));
+    } catch (error) {
+      console.warn('⚠️ Could not cache seller history:', error);
+    }
+  }
+
+  getFreshness(entry: CachedSellerHistory): CacheFreshness {
+    const age = Date.now() - entry.fetchedAt;
+    if (age < CACHE_FRESH_MS) {
+      return 'fresh';
+    }
+    return age < CACHE_MAX_AGE_MS ? 'stale' : 'expired';
+  }
+
+  // Clear one account's entries, or all of them
+  clear(userSub?: string): void {
+    const prefix = userSub ? `${STORAGE_PREFIX}${userSub}.` : STORAGE_PREFIX;
+    try {
+      Object.keys(sessionStorage)
+        .filter(key => key.indexOf(prefix) === 0)
+        .forEach(key => sessionStorage.removeItem(key));
+      console.log('🧹 Seller history cache cleared');
+    } catch (error) {
+      console.warn('⚠️ Could not clear seller history cache:', error);
+    }
+  }
+
+  private getUserSub(): string | null {
+    const user = authService.getAuthState().user;
+    return user ? user.sub : null;
+  }
+
+  private storageKey(userSub: string, merchantId: string, marketplaceId: string | null): string {
+    return `${STORAGE_PREFIX}${userSub}.${merchantId}.${marketplaceId || 'default'}`;
+  }
+}
+
+// Create a singleton instance
+export const sellerHistoryCache = new SellerHistoryCache();
@@ -4,28 +4,16 @@
  */
 
 import { authService } from '../auth/AuthService';
-
-// Types for the API response
-interface SellerInfo {
-  [key: string]: any; // The schema doesn't specify exact structure
-}
-
-interface Activity {
-  [key: string]: any; // The schema doesn't specify exact structure
-}
-
-interface Opportunity {
-  [key: string]: any; // The schema doesn't specify exact structure
-}
-
-interface SellerHistoryResponse {
-  seller_info: SellerInfo;
-  activities: Activity[];
-  opportunities: Opportunity[];
-}
-
-interface ErrorResponse {
-  message: string;
+import { httpClient } from './HttpClient';
+import { decodeSellerHistory, SellerHistory } from './SellerMetricsSchema';
+import { metricSnapshotStore } from './MetricSnapshotStore';
+import { sellerHistoryCache } from './SellerHistoryCache';
+
+// One marketplace's outcome in a multi-marketplace fetch
+export interface MarketplaceHistoryResult {
+  marketplaceId: string;
+  history: SellerHistory | null;
+  error: string | null;
 }
 
 // API configuration
@@ -43,23 +31,55 @@ interface SellerHistoryParams {
   marketplaceId?: string;      // Optional, defaults to JP marketplace
 }
 
+export interface SellerHistoryOptions {
+  forceRefresh?: boolean;                            // Skip the cache and call the API
+  onRevalidated?: (history: SellerHistory) => void;  // Called once a stale cached result has been refreshed
+}
+
 export class SellerHistoryService {
   private environment: 'prod' = 'prod';
-  private readonly MERCHANT_ID = '7489395755'; // Hardcoded merchant ID
+  private inFlight: { [key: string]: Promise<SellerHistory> } = {};
 
   constructor() {
     this.environment = 'prod';
   }
 
-  // Get seller history using authenticated user's token
-  async getSellerHistory(params: SellerHistoryParams = {}): Promise<SellerHistoryResponse> {
+  // Get seller history using authenticated user's token.
+  // Cached results are returned immediately; stale ones are refreshed in the background.
+  async getSellerHistory(
+    merchantId: string,
+    params: SellerHistoryParams = {},
+    options: SellerHistoryOptions = {}
+  ): Promise<SellerHistory> {
     try {
+      if (!merchantId) {
+        throw new Error('No merchant selected. Enter a merchant ID or open an email from a known seller.');
+      }
+
       // Check if user is authenticated
       if (!authService.isAuthenticated()) {
         throw new Error('User not authenticated. Please sign in first.');
       }
 
-      return await this.makeApiCallWithRetry(params);
+      const marketplaceId = params.marketplaceId || null;
+      const cached = options.forceRefresh ? null : sellerHistoryCache.get(merchantId, marketplaceId);
+      if (cached) {
+        const freshness = sellerHistoryCache.getFreshness(cached);
+        console.log(`📦 Serving ${freshness} seller history from cache for merchant ${merchantId}`);
+
+        if (freshness === 'stale') {
+          this.fetchAndCache(merchantId, params)
+            .then(history => options.onRevalidated && options.onRevalidated(history))
+            .catch(error => console.warn('⚠️ Background seller history refresh failed:', (error as Error).message));
+        }
+        return {
+          ...this.decode(cached.data, merchantId, marketplaceId),
+          fetchedAt: new Date(cached.fetchedAt).toISOString(),
+          fromCache: true
+        };
+      }
+
+      return await this.fetchAndCache(merchantId, params);
       
     } catch (error) {
       console.error('❌ Error calling seller history API:', error);
@@ -67,102 +87,77 @@ export class SellerHistoryService {
     }
   }
 
-  // Make API call with automatic retry on token expiration
-  private async makeApiCallWithRetry(params: SellerHistoryParams, retryCount = 0): Promise<SellerHistoryResponse> {
-    const maxRetries = 1; // Only retry once for token refresh
-    
-    try {
-      // Get access token from auth service (with automatic renewal)
-      const accessToken = await authService.getIdToken();
-      if (!accessToken) {
-        throw new Error('Your session has expired and could not be renewed. Please sign in again to continue.');
-      }
+  // Call the API and cache the response; concurrent requests for the same account and merchant share one call.
+  // Results are stored for the account that started the request, even if another one is active by the time it returns.
+  private fetchAndCache(merchantId: string, params: SellerHistoryParams): Promise<SellerHistory> {
+    const marketplaceId = params.marketplaceId || null;
+    const user = authService.getAuthState().user;
+    const userSub = user ? user.sub : null;
+    const key = `${userSub || 'anonymous'}.${merchantId}.${marketplaceId || 'default'}`;
+    if (this.inFlight[key]) {
+      return this.inFlight[key];
+    }
 
-      console.log('🔍 Calling seller history API with hardcoded merchant ID:', this.MERCHANT_ID);
-      
-      const config = API_CONFIG.prod;
-      console.log('🌐 Using API base URL:', config.baseUrl);
-      
-      // Build query parameters with hardcoded merchant ID
-      const queryParams = new URLSearchParams({
-        merchantId: this.MERCHANT_ID,
-        ...(params.marketplaceId && { marketplaceId: params.marketplaceId })
-      });
-      
-      // Use base URL directly since it already includes the full path
-      const url = `${config.baseUrl}?${queryParams.toString()}`;
-      console.log('📡 API URL:', url);
-      
-      const requestOptions = {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Accept': 'application/json',
-        },
-        mode: 'cors' as RequestMode,
-      };
-      
-      console.log('📝 Request options:', requestOptions);
-      
-      const response = await fetch(url, requestOptions);
-      
-      console.log('📊 API Response status:', response.status);
-      
-      if (!response.ok) {
-        // Handle authentication/authorization errors with retry
-        if ((response.status === 401 || response.status === 403) && retryCount < maxRetries) {
-          console.log('🔄 Token may be expired, attempting renewal and retry...');
-          
-          try {
-            // Force token renewal
-            await authService.renewToken();
-            console.log('✅ Token renewed, retrying API call...');
-            
-            // Retry the API call with the new token
-            return await this.makeApiCallWithRetry(params, retryCount + 1);
-          } catch (renewError) {
-            console.error('❌ Token renewal failed during retry:', renewError);
-            throw new Error('Your session has expired and could not be renewed. Please sign in again.');
-          }
-        }
-        
-        // Handle other errors
-        if (response.status === 502) {
-          const errorData: ErrorResponse = await response.json().catch(() => ({ message: 'Bad Gateway' }));
-          throw new Error(`Server error: ${errorData.message}`);
-        } else if (response.status === 401) {
-          throw new Error('Your session has expired. Please sign in again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. Your session may have expired or you may not have permission. Please sign in again.');
-        }
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data: SellerHistoryResponse = await response.json();
-      console.log('✅ Seller history data received:', data);
-      return data;
-      
-    } catch (error) {
-      // If this is not a retry and the error suggests token issues, don't retry again
-      if (retryCount >= maxRetries) {
-        console.error('❌ API call failed after retry:', error);
-      }
-      throw error;
+    const request = this.fetchSellerHistory(merchantId, params).then(data => {
+      sellerHistoryCache.set(merchantId, marketplaceId, data, userSub);
+      const history = this.decode(data, merchantId, marketplaceId);
+
+      // Keep a daily snapshot so trends can be charted over time
+      metricSnapshotStore.record(merchantId, marketplaceId, history.sellerInfo, userSub);
+      return history;
+    });
+
+    this.inFlight[key] = request;
+    const clear = () => {
+      delete this.inFlight[key];
+    };
+    request.then(clear, clear);
+    return request;
+  }
+
+  // Validate against the schema so backend field changes surface as warnings
+  private decode(data: any, merchantId: string, marketplaceId: string | null): SellerHistory {
+    const history = decodeSellerHistory(data, merchantId, marketplaceId);
+    if (history.warnings.length > 0) {
+      console.warn(`⚠️ Seller metrics schema drift (${history.warnings.length} warnings):`, history.warnings);
     }
+    return history;
   }
 
-  // Get current merchant ID (now hardcoded)
-  getCurrentMerchantId(): string {
-    return this.MERCHANT_ID;
+  // Call the API; the shared client retries throttling/server errors and renews the token on 401
+  private async fetchSellerHistory(merchantId: string, params: SellerHistoryParams): Promise<any> {
+    console.log('🔍 Calling seller history API for merchant ID:', merchantId);
+
+    const config = API_CONFIG.prod;
+    console.log('🌐 Using API base URL:', config.baseUrl);
+
+    const data = await httpClient.get(config.baseUrl, {
+      query: {
+        merchantId,
+        marketplaceId: params.marketplaceId
+      }
+    });
+    console.log('✅ Seller history data received:', data);
+    return data;
   }
 
-  // Convenience method to get seller history (simplified since merchant ID is hardcoded)
-  async getCurrentUserSellerHistory(marketplaceId?: string): Promise<SellerHistoryResponse> {
-    return this.getSellerHistory({
+  // Convenience method to get seller history for a merchant and optional marketplace
+  async getMerchantSellerHistory(merchantId: string, marketplaceId?: string): Promise<SellerHistory> {
+    return this.getSellerHistory(merchantId, {
       marketplaceId
     });
   }
 
+  // Fetch several marketplaces in parallel; one failing marketplace doesn't fail the rest
+  async getSellerHistoryForMarketplaces(merchantId: string, marketplaceIds: string[]): Promise<MarketplaceHistoryResult[]> {
+    console.log(`🌍 Fetching seller history for ${marketplaceIds.length} marketplaces...`);
+    return Promise.all(marketplaceIds.map(marketplaceId =>
+      this.getSellerHistory(merchantId, { marketplaceId })
+        .then(history => ({ marketplaceId, history, error: null }))
+        .catch(error => ({ marketplaceId, history: null, error: (error as Error).message }))
+    ));
+  }
+
   // Get current environment
   getEnvironment(): 'prod' {
     return this.environment;
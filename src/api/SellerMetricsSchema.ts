@@ -0,0 +1,301 @@
+/*
+ * Seller Metrics Schema
+ * Typed, runtime-validated view of the seller-search-metrics response.
+ * Schema drift (missing, renamed or malformed fields) is reported as warnings instead of silently dropped.
+ */
+
+export interface Money {
+  amount: number;
+  currency: string | null; // ISO 4217 code when the backend tells us
+}
+
+export interface SellerInfo {
+  totalGms: Money | null;
+  totalGmsMom: number | null;          // Month-over-month change as a fraction (-0.12 = -12%)
+  totalOrderedUnits: number | null;
+  totalOrderedUnitsMom: number | null;
+  buyBoxWinRate: number | null;        // Fraction 0..1
+  fbaBuyableAsinCount: number | null;
+  ipiScore: number | null;
+  activityTotalCount: number | null;
+  homeMarketplaceId: string | null;
+  primaryProductGroup: string | null;
+  netOrderedAsp: Money | null;
+  fbaAdopted: boolean | null;
+}
+
+export interface SellerActivity {
+  activityId: string | null;
+  activityType: string | null;
+  subject: string | null;
+  status: string | null;
+  activityDate: string | null;
+  dueDate: string | null;
+  owner: string | null;
+  contactEmail: string | null;
+  description: string | null;
+  itemId: string | null;
+  conversationId: string | null;
+  opportunityId: string | null;      // Opportunity the activity was about, if any
+}
+
+export interface SellerOpportunity {
+  opportunityId: string | null;
+  name: string | null;
+  stage: string | null;
+  amount: Money | null;
+  probability: number | null;          // Fraction 0..1
+  closeDate: string | null;
+  owner: string | null;
+}
+
+export type SchemaWarningCode = 'MISSING_FIELD' | 'RENAMED_FIELD' | 'INVALID_VALUE' | 'INVALID_SHAPE';
+
+export interface SchemaWarning {
+  code: SchemaWarningCode;
+  path: string;
+  message: string;
+}
+
+export interface SellerHistory {
+  sellerInfo: SellerInfo;
+  activities: SellerActivity[];
+  opportunities: SellerOpportunity[];
+  merchantId: string;
+  marketplaceId: string | null; // Marketplace that was requested, null for the API default
+  fetchedAt: string;
+  fromCache: boolean;
+  warnings: SchemaWarning[];
+  raw: any; // Response as received, for the raw JSON view
+}
+
+// Returns undefined when the value can't be decoded
+type Decoder<T> = (value: any) => T | undefined;
+
+interface FieldSpec<T> {
+  keys: string[];      // Canonical key first, then known aliases
+  decode: Decoder<T>;
+  expected?: boolean;  // Warn when the field is absent
+}
+
+type ObjectSpec<T> = { [K in keyof T]: FieldSpec<NonNullable<T[K]>> };
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '¥': 'JPY',
+  '￥': 'JPY',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR'
+};
+
+// Plain numbers, or strings like "1,234", " 12.5 "
+export const decodeNumber: Decoder<number> = value => {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const cleaned = value.replace(/[,\s]/g, '');
+    const parsed = cleaned === '' ? NaN : Number(cleaned);
+    return isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+// Percentages normalized to fractions: "12.5%" -> 0.125, "-3%" -> -0.03, 0.85 -> 0.85
+export const decodePercent: Decoder<number> = value => {
+  if (typeof value === 'string' && value.indexOf('%') !== -1) {
+    const parsed = decodeNumber(value.replace('%', ''));
+    return parsed === undefined ? undefined : parsed / 100;
+  }
+  return decodeNumber(value);
+};
+
+// MoM fields (*_momp) are percentage points whether or not they carry a "%": "-12.5" and "-12.5%" -> -0.125
+export const decodePercentPoints: Decoder<number> = value => {
+  const parsed = decodeNumber(typeof value === 'string' ? value.replace('%', '') : value);
+  return parsed === undefined ? undefined : parsed / 100;
+};
+
+// Amounts like 1234, "¥1,234", "JPY 1,234" or "1234.5 USD"
+export const decodeMoney: Decoder<Money> = value => {
+  if (typeof value === 'number') {
+    return isFinite(value) ? { amount: value, currency: null } : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  let currency: string | null = null;
+  let text = value.trim();
+  const codeMatch = text.match(/^([A-Z]{3})\s*|\s*([A-Z]{3})$/);
+  if (codeMatch) {
+    currency = codeMatch[1] || codeMatch[2];
+    text = text.replace(codeMatch[0], '');
+  }
+  Object.keys(CURRENCY_SYMBOLS).forEach(symbol => {
+    if (text.indexOf(symbol) !== -1) {
+      currency = currency || CURRENCY_SYMBOLS[symbol];
+      text = text.replace(symbol, '');
+    }
+  });
+
+  const amount = decodeNumber(text);
+  return amount === undefined ? undefined : { amount, currency };
+};
+
+export const decodeString: Decoder<string> = value => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return typeof value === 'number' ? String(value) : undefined;
+};
+
+export const decodeFlag: Decoder<boolean> = value => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = String(value).trim().toUpperCase();
+  if (text === 'Y' || text === 'YES' || text === 'TRUE' || text === '1') {
+    return true;
+  }
+  if (text === 'N' || text === 'NO' || text === 'FALSE' || text === '0') {
+    return false;
+  }
+  return undefined;
+};
+
+// Dates are kept as ISO strings
+export const decodeDate: Decoder<string> = value => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const SELLER_INFO_SPEC: ObjectSpec<SellerInfo> = {
+  totalGms: { keys: ['s_total_gms', 'total_gms'], decode: decodeMoney, expected: true },
+  totalGmsMom: { keys: ['s_total_gms_momp', 'total_gms_momp'], decode: decodePercentPoints, expected: true },
+  totalOrderedUnits: { keys: ['total_ordered_units', 'ordered_units'], decode: decodeNumber, expected: true },
+  totalOrderedUnitsMom: { keys: ['total_ordered_units_momp', 'ordered_units_momp'], decode: decodePercentPoints, expected: true },
+  buyBoxWinRate: { keys: ['buy_box_win_rate', 'bb_win_rate'], decode: decodePercent, expected: true },
+  fbaBuyableAsinCount: { keys: ['fba_buyable_asin_count_3p', 'fba_buyable_asin_count'], decode: decodeNumber, expected: true },
+  ipiScore: { keys: ['ipi_scr', 'ipi_score'], decode: decodeNumber, expected: true },
+  activityTotalCount: { keys: ['activity_total_count', 'total_activity_count'], decode: decodeNumber, expected: true },
+  homeMarketplaceId: { keys: ['home_marketplace_id', 'marketplace_id'], decode: decodeString, expected: true },
+  primaryProductGroup: { keys: ['merchant_primary_pg_desc', 'primary_pg_desc'], decode: decodeString, expected: true },
+  netOrderedAsp: { keys: ['net_ordered_asp', 'ordered_asp'], decode: decodeMoney, expected: true },
+  fbaAdopted: { keys: ['fba_adoption_status', 'fba_adopted'], decode: decodeFlag, expected: true }
+};
+
+const ACTIVITY_SPEC: ObjectSpec<SellerActivity> = {
+  activityId: { keys: ['activity_id', 'id'], decode: decodeString, expected: true },
+  activityType: { keys: ['activity_type', 'type'], decode: decodeString },
+  subject: { keys: ['subject', 'title'], decode: decodeString, expected: true },
+  status: { keys: ['status'], decode: decodeString },
+  activityDate: { keys: ['activity_date', 'created_date', 'timestamp'], decode: decodeDate, expected: true },
+  dueDate: { keys: ['due_date', 'dueDate'], decode: decodeDate },
+  owner: { keys: ['created_by', 'owner', 'author'], decode: decodeString },
+  contactEmail: { keys: ['contact_email', 'sender_email'], decode: decodeString },
+  description: { keys: ['description', 'summary', 'notes'], decode: decodeString },
+  itemId: { keys: ['item_id'], decode: decodeString },
+  conversationId: { keys: ['conversation_id'], decode: decodeString },
+  opportunityId: { keys: ['opportunity_id'], decode: decodeString }
+};
+
+const OPPORTUNITY_SPEC: ObjectSpec<SellerOpportunity> = {
+  opportunityId: { keys: ['opportunity_id', 'id'], decode: decodeString, expected: true },
+  name: { keys: ['opportunity_name', 'name', 'title'], decode: decodeString, expected: true },
+  stage: { keys: ['stage', 'stage_name', 'status'], decode: decodeString, expected: true },
+  amount: { keys: ['amount', 'opportunity_amount', 'expected_revenue'], decode: decodeMoney },
+  probability: { keys: ['probability', 'win_probability'], decode: decodePercent },
+  closeDate: { keys: ['close_date', 'expected_close_date'], decode: decodeDate },
+  owner: { keys: ['owner', 'owner_name', 'created_by'], decode: decodeString }
+};
+
+// Decode one object against its spec, collecting warnings for anything that didn't line up
+function decodeObject<T>(raw: any, spec: ObjectSpec<T>, path: string, warnings: SchemaWarning[]): T {
+  const source = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+  if (source !== raw) {
+    warnings.push({ code: 'INVALID_SHAPE', path, message: `${path} is not an object` });
+  }
+
+  const result = {} as T;
+  (Object.keys(spec) as Array<keyof T>).forEach(field => {
+    const fieldSpec = spec[field];
+    const key = fieldSpec.keys.filter(candidate => Object.prototype.hasOwnProperty.call(source, candidate))[0];
+    result[field] = null;
+
+    if (key === undefined) {
+      if (fieldSpec.expected) {
+        warnings.push({
+          code: 'MISSING_FIELD',
+          path: `${path}.${fieldSpec.keys[0]}`,
+          message: `${path}.${fieldSpec.keys[0]} is missing from the response`
+        });
+      }
+      return;
+    }
+    if (key !== fieldSpec.keys[0]) {
+      warnings.push({
+        code: 'RENAMED_FIELD',
+        path: `${path}.${fieldSpec.keys[0]}`,
+        message: `${path}.${fieldSpec.keys[0]} not found; using ${path}.${key} instead`
+      });
+    }
+
+    const value = source[key];
+    if (value === null || value === undefined || value === '') {
+      return;
+    }
+    const decoded = fieldSpec.decode(value);
+    if (decoded === undefined) {
+      warnings.push({
+        code: 'INVALID_VALUE',
+        path: `${path}.${key}`,
+        message: `${path}.${key} has unexpected value ${JSON.stringify(value)}`
+      });
+      return;
+    }
+    result[field] = decoded as any;
+  });
+  return result;
+}
+
+function decodeList<T>(raw: any, spec: ObjectSpec<T>, path: string, warnings: SchemaWarning[]): T[] {
+  if (raw === undefined || raw === null) {
+    warnings.push({ code: 'MISSING_FIELD', path, message: `${path} is missing from the response` });
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    warnings.push({ code: 'INVALID_SHAPE', path, message: `${path} is not a list` });
+    return [];
+  }
+  return raw.map((entry, index) => decodeObject(entry, spec, `${path}[${index}]`, warnings));
+}
+
+// Validate and normalize a seller-search-metrics response
+export function decodeSellerHistory(data: any, merchantId: string, marketplaceId: string | null = null): SellerHistory {
+  const warnings: SchemaWarning[] = [];
+  if (!data || typeof data !== 'object') {
+    warnings.push({ code: 'INVALID_SHAPE', path: 'response', message: 'Response is not a JSON object' });
+    data = {};
+  }
+  // Without seller_info every metric would warn individually - one warning says it all
+  if (!data.seller_info) {
+    warnings.push({ code: 'MISSING_FIELD', path: 'seller_info', message: 'seller_info is missing from the response' });
+  }
+
+  return {
+    sellerInfo: decodeObject(data.seller_info || {}, SELLER_INFO_SPEC, 'seller_info', data.seller_info ? warnings : []),
+    activities: decodeList(data.activities, ACTIVITY_SPEC, 'activities', warnings),
+    opportunities: decodeList(data.opportunities, OPPORTUNITY_SPEC, 'opportunities', warnings),
+    merchantId,
+    marketplaceId,
+    fetchedAt: new Date().toISOString(),
+    fromCache: false,
+    warnings,
+    raw: data
+  };
+}
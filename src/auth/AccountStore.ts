@@ -0,0 +1,84 @@
+/*
+ * Account Store
+ * Signed-in OIDC users for every account, so the task pane can switch between identities
+ * without signing in again. Kept in the same storage scope as the oidc-client-ts user store.
+ */
+
+import { StateStore, User } from 'oidc-client-ts';
+import { logger } from './Logger';
+import { AUTH_STORAGE_PREFIXES, createTokenStore } from './TokenStorage';
+
+// Bookkeeping kept next to the stored users
+interface AccountIndex {
+    activeSub: string | null;
+    lastUsed: { [sub: string]: number };
+}
+
+const INDEX_KEY = 'index';
+
+export class AccountStore {
+    private store: StateStore;
+
+    constructor(store?: StateStore) {
+        this.store = store || createTokenStore('session', AUTH_STORAGE_PREFIXES.accounts);
+    }
+
+    // Remember (or refresh) an account and make it the active one
+    async save(user: User): Promise<void> {
+        const sub = user.profile.sub;
+        await this.store.set(`user.${sub}`, user.toStorageString());
+        const index = await this.readIndex();
+        index.activeSub = sub;
+        index.lastUsed[sub] = Date.now();
+        await this.writeIndex(index);
+    }
+
+    async get(sub: string): Promise<User | null> {
+        const stored = await this.store.get(`user.${sub}`);
+        return stored ? User.fromStorageString(stored) : null;
+    }
+
+    // Stored accounts, most recently used first
+    async list(): Promise<User[]> {
+        const index = await this.readIndex();
+        const users: User[] = [];
+        const subs = Object.keys(index.lastUsed).sort((a, b) => index.lastUsed[b] - index.lastUsed[a]);
+        for (const sub of subs) {
+            const user = await this.get(sub);
+            if (user) {
+                users.push(user);
+            }
+        }
+        return users;
+    }
+
+    async remove(sub: string): Promise<void> {
+        await this.store.remove(`user.${sub}`);
+        const index = await this.readIndex();
+        delete index.lastUsed[sub];
+        if (index.activeSub === sub) {
+            index.activeSub = null;
+        }
+        await this.writeIndex(index);
+    }
+
+    async getActiveSub(): Promise<string | null> {
+        return (await this.readIndex()).activeSub;
+    }
+
+    private async readIndex(): Promise<AccountIndex> {
+        try {
+            const stored = await this.store.get(INDEX_KEY);
+            if (stored) {
+                return JSON.parse(stored);
+            }
+        } catch (error) {
+            logger.warn('⚠️ Could not read account index:', error);
+        }
+        return { activeSub: null, lastUsed: {} };
+    }
+
+    private async writeIndex(index: AccountIndex): Promise<void> {
+        await this.store.set(INDEX_KEY, JSON.stringify(index));
+    }
+}
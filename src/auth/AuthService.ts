@@ -1,22 +1,51 @@
 /*
  * OIDC Authentication Service
- * Based on Amazon-style implicit flow implementation
+ * Authorization code flow with PKCE (oidc-client-ts); tokens are renewed with the refresh token when one is issued.
+ * Inside Office, sign-in runs in an Office dialog (displayDialogAsync/messageParent); browsers use a popup.
+ * Several accounts can be signed in at once; the UserManager always holds the active one.
+ * Tokens live in memory or sessionStorage (see TokenStorage) and are never logged.
  */
 
 import {
     UserManager,
     User,
-    WebStorageStateStore,
     UserManagerSettings
-} from 'oidc-client';
-import { OIDCConfig, UserProfile, AuthState, AuthenticationError } from '../types/auth';
+} from 'oidc-client-ts';
+import { OIDCConfig, UserProfile, AuthState, AuthenticationError, AuthEventMap, AccountSummary } from '../types/auth';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { AccountStore } from './AccountStore';
+import { logger } from './Logger';
+import { AUTH_STORAGE_PREFIXES, clearAuthStorage, createSignInStateStore, createTokenStore } from './TokenStorage';
 
-export class AuthService {
+// Query parameter that tells taskpane.html it was opened as the Office sign-in dialog
+const DIALOG_SIGNIN_PARAM = 'authDialog';
+// Optional OIDC prompt passed through to the dialog (e.g. 'login' when adding an account)
+const DIALOG_PROMPT_PARAM = 'prompt';
+// sessionStorage flag that survives the IDP redirect inside the dialog window
+const DIALOG_SIGNIN_KEY = `${AUTH_STORAGE_PREFIXES.dialog}SignIn`;
+
+// Tokens this close to expiry are treated as expired
+const TOKEN_EXPIRY_BUFFER_SECONDS = 60;
+
+export interface LoginOptions {
+    prompt?: string;   // OIDC prompt, e.g. 'login' to sign in as a different account
+}
+
+// Message the sign-in dialog sends back to the task pane
+interface DialogSignInMessage {
+    status: 'success' | 'error';
+    user?: string;   // User.toStorageString()
+    error?: string;
+}
+
+export class AuthService extends TypedEventEmitter<AuthEventMap> {
     private userManager: UserManager;
     private authState: AuthState;
-    private eventListeners: { [key: string]: Function[] } = {};
+    private idTokenExpiry: { token: string; exp: number | null } | null = null;
+    private accounts: AccountStore;
 
     constructor(config?: OIDCConfig) {
+        super();
         // Amazon federated configuration
         const baseUrl = this.getBaseUrl();
         const defaultConfig: OIDCConfig = {
@@ -24,13 +53,14 @@ export class AuthService {
             clientId: 'amc-qbiz-aud',
             redirectUri: `${baseUrl}/taskpane.html`,
             postLogoutRedirectUri: `${baseUrl}/taskpane.html`,
-            scope: 'openid profile email',
-            responseType: 'id_token', // Implicit flow - TODO: should use auth code with PKCE, and upgrade from oidc-client to oidc-client-ts
-            popupWindowFeatures: 'width=800,height=600,resizable=yes,scrollbars=yes,status=yes',
+            scope: 'openid profile email offline_access', // offline_access: most IDPs only issue a refresh token when asked
+            responseType: 'code', // Authorization code flow - oidc-client-ts adds the PKCE challenge
+            popupWindowFeatures: { width: 800, height: 600, resizable: true, scrollbars: true, status: true },
             popupWindowTarget: 'amazon-auth-popup'
         };
 
         const finalConfig = config || defaultConfig;
+        const tokenStorage = finalConfig.tokenStorage || 'session';
         
         // Detect Office Add-in environment
         const isOfficeAddIn = typeof Office !== 'undefined';
@@ -42,7 +72,9 @@ export class AuthService {
             post_logout_redirect_uri: finalConfig.postLogoutRedirectUri,
             response_type: finalConfig.responseType,
             scope: finalConfig.scope,
-            stateStore: new WebStorageStateStore({ store: window.localStorage }),
+            userStore: createTokenStore(tokenStorage, AUTH_STORAGE_PREFIXES.user),
+            // Shared with the sign-in popup, whatever the token storage scope
+            stateStore: createSignInStateStore(),
             loadUserInfo: true,
             
             // Use popup window for authentication
@@ -50,18 +82,20 @@ export class AuthService {
             popupWindowFeatures: finalConfig.popupWindowFeatures,
             popupWindowTarget: finalConfig.popupWindowTarget,
             
-            // Disable automatic silent renewal in Office Add-in environments
-            automaticSilentRenew: !isOfficeAddIn,
+            // Renewal is scheduled by the token lifecycle manager, which knows whether it can
+            // renew silently or has to prompt for sign-in
+            automaticSilentRenew: false,
             includeIdTokenInSilentRenew: !isOfficeAddIn,
             monitorSession: !isOfficeAddIn,
             
             // Shorter expiration notification time for better UX
-            accessTokenExpiringNotificationTime: 300, // 5 minutes before expiration
+            accessTokenExpiringNotificationTimeInSeconds: 300, // 5 minutes before expiration
             
             filterProtocolClaims: true,
         };
 
         this.userManager = new UserManager(settings);
+        this.accounts = new AccountStore(createTokenStore(tokenStorage, AUTH_STORAGE_PREFIXES.accounts));
         this.authState = {
             isAuthenticated: false,
             user: null,
@@ -74,34 +108,26 @@ export class AuthService {
 
     private setupEventHandlers(): void {
         this.userManager.events.addUserLoaded((user: User) => {
-            console.log('🔓 User loaded:', user);
+            logger.log('🔓 User loaded:', user.profile.sub);
             
-            // Log ID token details, remove before production
+            // Token timing only - token contents are never logged
             if (user.id_token) {
-                console.log('🎫 ID Token received:', user.id_token.substring(0, 50) + '...');
-                console.log('🎫 Full ID Token:', user.id_token);
-                
-                // Decode and log token payload
-                try {
-                    const tokenParts = user.id_token.split('.');
-                    if (tokenParts.length === 3) {
-                        const payload = JSON.parse(atob(tokenParts[1]));
-                        console.log('🎫 ID Token payload:', payload);
-                        console.log('🎫 Token expires at:', new Date(payload.exp * 1000).toISOString());
-                        console.log('🎫 Token issued at:', new Date(payload.iat * 1000).toISOString());
-                    }
-                } catch (error) {
-                    console.error('❌ Failed to decode ID token:', error);
+                if (user.profile.exp) {
+                    logger.log('🎫 Token expires at:', new Date(user.profile.exp * 1000).toISOString());
+                }
+                if (user.profile.iat) {
+                    logger.log('🎫 Token issued at:', new Date(user.profile.iat * 1000).toISOString());
                 }
             } else {
-                console.warn('⚠️ No ID token found in user object');
+                logger.warn('⚠️ No ID token found in user object');
             }
             
             this.authState.isAuthenticated = true;
             this.authState.user = this.extractUserProfile(user);
             this.authState.isLoading = false;
             this.authState.error = null;
-            console.log('🎯 Auth state updated:', {
+            this.accounts.save(user).catch(error => logger.warn('⚠️ Could not remember account:', error));
+            logger.log('🎯 Auth state updated:', {
                 isAuthenticated: this.authState.isAuthenticated,
                 user: this.authState.user?.name,
                 hasUser: !!this.authState.user
@@ -110,7 +136,7 @@ export class AuthService {
         });
 
         this.userManager.events.addUserUnloaded(() => {
-            console.log('🔒 User unloaded');
+            logger.log('🔒 User unloaded');
             this.authState.isAuthenticated = false;
             this.authState.user = null;
             this.authState.isLoading = false;
@@ -118,43 +144,29 @@ export class AuthService {
         });
 
         this.userManager.events.addAccessTokenExpiring(() => {
-            console.log('⏰ Access token expiring');
+            logger.log('⏰ Access token expiring');
             this.emit('accessTokenExpiring');
         });
 
         this.userManager.events.addAccessTokenExpired(() => {
-            console.log('❌ Access token expired');
+            logger.log('❌ Access token expired');
             this.emit('accessTokenExpired');
         });
 
         this.userManager.events.addSilentRenewError((error: Error) => {
-            console.error('🔄 Silent renew error:', error);
+            logger.error('🔄 Silent renew error:', error);
             this.authState.error = error.message;
             this.emit('silentRenewError', error);
         });
     }
 
-    // Event system
-    public on(event: string, callback: Function): void {
-        if (!this.eventListeners[event]) {
-            this.eventListeners[event] = [];
-        }
-        this.eventListeners[event].push(callback);
-    }
-
-    private emit(event: string, data?: any): void {
-        if (this.eventListeners[event]) {
-            this.eventListeners[event].forEach(callback => callback(data));
-        }
-    }
-
     // Initialize authentication state
     public async initialize(): Promise<void> {
         try {
             this.authState.isLoading = true;
             
             // Handle callback if we're returning from authentication
-            if (window.location.hash && window.location.hash.includes('id_token')) {
+            if (this.isCallbackUrl()) {
                 await this.handleCallback();
                 return;
             }
@@ -164,18 +176,15 @@ export class AuthService {
             if (user && !user.expired) {
                 this.authState.isAuthenticated = true;
                 this.authState.user = this.extractUserProfile(user);
-                console.log('✅ Existing user found:', this.authState.user);
+                logger.log('✅ Existing user found:', this.authState.user);
+                await this.accounts.save(user);
                 
-                // Log existing ID token
-                if (user.id_token) {
-                    console.log('🎫 Init - Existing ID Token found:', user.id_token.substring(0, 50) + '...');
-                    console.log('🎫 Init - Full existing ID Token:', user.id_token);
-                } else {
-                    console.warn('⚠️ Init - Existing user has no ID token');
+                if (!user.id_token) {
+                    logger.warn('⚠️ Init - Existing user has no ID token');
                 }
             }
         } catch (error) {
-            console.error('❌ Initialization error:', error);
+            logger.error('❌ Initialization error:', error);
             this.authState.error = error instanceof Error ? error.message : 'Initialization failed';
         } finally {
             this.authState.isLoading = false;
@@ -183,29 +192,31 @@ export class AuthService {
     }
 
     // Trigger login
-    public async login(): Promise<void> {
+    public async login(options: LoginOptions = {}): Promise<void> {
         try {
             this.authState.isLoading = true;
             this.authState.error = null;
-            console.log('🚀 Starting login...');
-            console.log('🔧 OIDC Settings:', {
+            logger.log('🚀 Starting login...');
+            logger.log('🔧 OIDC Settings:', {
                 authority: this.userManager.settings.authority,
                 client_id: this.userManager.settings.client_id,
                 redirect_uri: this.userManager.settings.redirect_uri,
                 popup_redirect_uri: this.userManager.settings.popup_redirect_uri
             });
             
-            // Use popup window for authentication
-            console.log('🔄 Opening popup window...');
-            const user = await this.userManager.signinPopup();
-            console.log('✅ Popup login successful:', user);
-            
-            // Log ID token from login
-            if (user.id_token) {
-                console.log('🎫 Login - ID Token received:', user.id_token.substring(0, 50) + '...');
-                console.log('🎫 Login - Full ID Token:', user.id_token);
+            // Office dialog when hosted in Outlook (popups are often blocked there), popup window otherwise
+            let user: User;
+            if (this.canUseOfficeDialog()) {
+                logger.log('🔄 Opening Office sign-in dialog...');
+                user = await this.signinWithOfficeDialog(options.prompt);
             } else {
-                console.warn('⚠️ Login - No ID token in popup response');
+                logger.log('🔄 Opening popup window...');
+                user = await this.userManager.signinPopup({ prompt: options.prompt });
+            }
+            logger.log('✅ Login successful:', user.profile.sub);
+            
+            if (!user.id_token) {
+                logger.warn('⚠️ Login - No ID token in sign-in response');
             }
             
             // Update auth state immediately after successful popup
@@ -214,11 +225,11 @@ export class AuthService {
             this.authState.isLoading = false;
             this.authState.error = null;
             
-            console.log('🔄 Emitting authSuccess event for UI update...');
+            logger.log('🔄 Emitting authSuccess event for UI update...');
             this.emit('authSuccess', this.authState.user);
         } catch (error) {
-            console.error('❌ Login error:', error);
-            console.error('❌ Error details:', {
+            logger.error('❌ Login error:', error);
+            logger.error('❌ Error details:', {
                 name: error.name,
                 message: error.message,
                 stack: error.stack
@@ -232,49 +243,133 @@ export class AuthService {
     // Handle the callback after login
     public async handleCallback(): Promise<void> {
         try {
-            console.log('🔄 Handling authentication callback...');
-            const user = await this.userManager.signinPopupCallback();
-            console.log('✅ Callback handled successfully:', user);
-            
-            // Log ID token from callback
-            if (user && user.id_token) {
-                console.log('🎫 Callback - ID Token received:', user.id_token.substring(0, 50) + '...');
-                console.log('🎫 Callback - Full ID Token:', user.id_token);
-            } else {
-                console.warn('⚠️ Callback - No ID token in callback response');
+            logger.log('🔄 Handling authentication callback...');
+            // A popup hands the response back to its opener; the dialog redeems the code itself
+            // and passes the signed-in user to the task pane
+            const user = await this.userManager.signinCallback();
+            logger.log('✅ Callback handled successfully');
+
+            if (user && this.isInSignInDialog()) {
+                this.messageDialogParent({ status: 'success', user: user.toStorageString() });
             }
             
             // Clean up URL only if history API is available
             if (window.history && typeof window.history.replaceState === 'function') {
                 window.history.replaceState(null, '', window.location.pathname);
             } else {
-                console.log('ℹ️ History API not available in this environment (Office Add-in)');
+                logger.log('ℹ️ History API not available in this environment (Office Add-in)');
             }
         } catch (error) {
-            console.error('❌ Callback error:', error);
+            logger.error('❌ Callback error:', error);
             this.authState.error = error instanceof Error ? error.message : 'Callback failed';
+            if (this.isInSignInDialog()) {
+                this.messageDialogParent({ status: 'error', error: this.authState.error });
+            }
             throw new AuthenticationError('Authentication callback failed', 'CALLBACK_ERROR');
         }
     }
 
+    // True when taskpane.html was opened as the Office sign-in dialog and should start the sign-in
+    public isDialogSignInStart(): boolean {
+        return new URLSearchParams(window.location.search).has(DIALOG_SIGNIN_PARAM);
+    }
+
+    // Runs inside the Office dialog: redirect the dialog window to the IDP
+    public async startDialogSignIn(): Promise<void> {
+        try {
+            sessionStorage.setItem(DIALOG_SIGNIN_KEY, 'true');
+            const prompt = new URLSearchParams(window.location.search).get(DIALOG_PROMPT_PARAM) || undefined;
+            await this.userManager.signinRedirect({ prompt });
+        } catch (error) {
+            logger.error('❌ Dialog sign-in error:', error);
+            this.messageDialogParent({ status: 'error', error: error instanceof Error ? error.message : 'Sign-in failed' });
+        }
+    }
+
+    private isInSignInDialog(): boolean {
+        try {
+            return sessionStorage.getItem(DIALOG_SIGNIN_KEY) === 'true';
+        } catch {
+            return false;
+        }
+    }
+
+    private messageDialogParent(message: DialogSignInMessage): void {
+        sessionStorage.removeItem(DIALOG_SIGNIN_KEY);
+        Office.context.ui.messageParent(JSON.stringify(message));
+    }
+
+    private canUseOfficeDialog(): boolean {
+        return typeof Office !== 'undefined' &&
+            !!Office.context && !!Office.context.ui &&
+            !!Office.context.requirements && Office.context.requirements.isSetSupported('DialogApi', '1.1');
+    }
+
+    // Open taskpane.html in an Office dialog and wait for it to send back the signed-in user
+    private signinWithOfficeDialog(prompt?: string): Promise<User> {
+        const dialogUrl = `${this.userManager.settings.redirect_uri}?${DIALOG_SIGNIN_PARAM}=true` +
+            (prompt ? `&${DIALOG_PROMPT_PARAM}=${encodeURIComponent(prompt)}` : '');
+
+        return new Promise<User>((resolve, reject) => {
+            Office.context.ui.displayDialogAsync(dialogUrl, { height: 60, width: 40 }, (result) => {
+                if (result.status === Office.AsyncResultStatus.Failed) {
+                    // e.g. the dialog was blocked or one is already open - fall back to the popup
+                    logger.warn('⚠️ Office dialog unavailable, falling back to popup:', result.error.message);
+                    this.userManager.signinPopup({ prompt }).then(resolve, reject);
+                    return;
+                }
+
+                const dialog = result.value;
+                let settled = false;
+
+                dialog.addEventHandler(Office.EventType.DialogMessageReceived, async (arg: any) => {
+                    settled = true;
+                    dialog.close();
+                    try {
+                        const message: DialogSignInMessage = JSON.parse(arg.message);
+                        if (message.status !== 'success' || !message.user) {
+                            throw new Error(message.error || 'Sign-in failed');
+                        }
+                        const user = User.fromStorageString(message.user);
+                        await this.userManager.storeUser(user);
+                        // Raises userLoaded and starts the token expiry timers, as the popup flow does
+                        await this.userManager.events.load(user);
+                        resolve(user);
+                    } catch (error) {
+                        reject(error);
+                    }
+                });
+
+                dialog.addEventHandler(Office.EventType.DialogEventReceived, (arg: any) => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    // 12006: the user closed the dialog
+                    reject(new Error(arg.error === 12006 ? 'Sign-in was cancelled' : `Sign-in dialog error ${arg.error}`));
+                });
+            });
+        });
+    }
+
     // Get the current user
     public async getUser(): Promise<UserProfile | null> {
         try {
             const user = await this.userManager.getUser();
             return user ? this.extractUserProfile(user) : null;
         } catch (error) {
-            console.error('❌ Error getting user:', error);
+            logger.error('❌ Error getting user:', error);
             return null;
         }
     }
 
-    // Get access token
+    // Get access token with automatic renewal if expired
     public async getAccessToken(): Promise<string | null> {
         try {
-            const user = await this.userManager.getUser();
+            const user = await this.getValidUser();
             return user?.access_token || null;
         } catch (error) {
-            console.error('❌ Error getting access token:', error);
+            logger.error('❌ Error getting access token:', error);
             return null;
         }
     }
@@ -282,103 +377,122 @@ export class AuthService {
     // Get ID token with automatic renewal if expired
     public async getIdToken(): Promise<string | null> {
         try {
-            let user = await this.userManager.getUser();
-            
-            // Check if token is expired or about to expire (within 5 minutes)
-            if (!user || this.isTokenExpired(user)) {
-                console.log('🔄 Token expired or about to expire, attempting renewal...');
-                try {
-                    await this.renewToken();
-                    user = await this.userManager.getUser();
-                } catch (renewError) {
-                    console.error('❌ Token renewal failed:', renewError);
-                    // Token renewal failed, user needs to re-authenticate
-                    this.authState.isAuthenticated = false;
-                    this.authState.user = null;
-                    this.emit('tokenExpired');
-                    return null;
-                }
-            }
+            const user = await this.getValidUser();
             
             const idToken = user?.id_token || null;
-            if (idToken) {
-                console.log('🎫 getIdToken - Returning ID token:', idToken.substring(0, 50) + '...');
-                console.log('🎫 getIdToken - Full ID Token:', idToken);
-            } else {
-                console.warn('⚠️ getIdToken - No ID token available');
+            if (!idToken) {
+                logger.warn('⚠️ getIdToken - No ID token available');
             }
             
             return idToken;
         } catch (error) {
-            console.error('❌ Error getting ID token:', error);
+            logger.error('❌ Error getting ID token:', error);
             return null;
         }
     }
 
+    // Bearer token for API calls: the access token, falling back to the ID token when the provider
+    // issues none. One user lookup, so an unrenewable token raises tokenExpired only once.
+    public async getApiToken(): Promise<string | null> {
+        try {
+            const user = await this.getValidUser();
+            return user ? user.access_token || user.id_token || null : null;
+        } catch (error) {
+            logger.error('❌ Error getting API token:', error);
+            return null;
+        }
+    }
+
+    // Current user, renewing first if the tokens are expired or about to expire
+    private async getValidUser(): Promise<User | null> {
+        let user = await this.userManager.getUser();
+        
+        if (!user || this.isTokenExpired(user)) {
+            logger.log('🔄 Token expired or about to expire, attempting renewal...');
+            try {
+                await this.renewToken();
+                user = await this.userManager.getUser();
+            } catch (renewError) {
+                logger.error('❌ Token renewal failed:', renewError);
+                // Token renewal failed, user needs to re-authenticate
+                this.authState.isAuthenticated = false;
+                this.authState.user = null;
+                this.emit('tokenExpired');
+                return null;
+            }
+        }
+        
+        return user;
+    }
+
     // Check if token is expired or about to expire
     private isTokenExpired(user: User): boolean {
         if (!user) {
-            console.log('🚫 Token check: No user object');
+            logger.log('🚫 Token check: No user object');
             return true;
         }
         
-        // Try to get expiration from user.expires_at first
-        let expiresAt = user.expires_at;
+        const expiresAt = this.getExpiresAt(user);
+        if (!expiresAt) {
+            logger.log('🚫 Token check: No expiration time available');
+            return true;
+        }
         
-        // If expires_at is not set (common with implicit flow), decode the ID token
-        if (!expiresAt && user.id_token) {
+        // The token lifecycle manager renews (or prompts) well before this; the buffer covers
+        // requests that start right at the edge
+        return expiresAt - Math.floor(Date.now() / 1000) <= TOKEN_EXPIRY_BUFFER_SECONDS;
+    }
+
+    // Expiry (epoch seconds) of the token sent to the APIs: the access token, or the ID token's exp claim
+    private getExpiresAt(user: User): number | null {
+        if (user.expires_at) {
+            return user.expires_at;
+        }
+        if (!user.id_token) {
+            return null;
+        }
+        // Decode once per token rather than on every check
+        if (!this.idTokenExpiry || this.idTokenExpiry.token !== user.id_token) {
+            let exp: number | null = null;
             try {
-                // Decode the JWT token to get the exp claim
                 const tokenParts = user.id_token.split('.');
                 if (tokenParts.length === 3) {
-                    const payload = JSON.parse(atob(tokenParts[1]));
-                    expiresAt = payload.exp;
-                    console.log('🔍 Extracted expiration from ID token:', expiresAt);
+                    exp = JSON.parse(atob(tokenParts[1])).exp || null;
                 }
             } catch (error) {
-                console.log('❌ Failed to decode ID token for expiration:', error);
+                logger.log('❌ Failed to decode ID token for expiration:', error);
             }
+            this.idTokenExpiry = { token: user.id_token, exp };
         }
-        
-        if (!expiresAt) {
-            console.log('🚫 Token check: No expiration time available');
-            console.log('🔍 User object keys:', Object.keys(user));
-            console.log('🔍 User expires_at:', user.expires_at);
-            console.log('🔍 Has ID token:', !!user.id_token);
-            return true;
+        return this.idTokenExpiry.exp;
+    }
+
+    // Expiry of the current token in epoch seconds, or null when signed out
+    public async getTokenExpiry(): Promise<number | null> {
+        try {
+            const user = await this.userManager.getUser();
+            return user ? this.getExpiresAt(user) : null;
+        } catch {
+            return null;
         }
-        
-        const isOfficeAddIn = typeof Office !== 'undefined';
-        // In Office Add-ins, only check for actual expiration since renewal isn't supported
-        // In regular web apps, use a 1-minute buffer for proactive renewal
-        const expirationBuffer = isOfficeAddIn ? 0 : 60;
-        const currentTime = Math.floor(Date.now() / 1000);
-        const timeUntilExpiry = expiresAt - currentTime;
-        const willExpireSoon = timeUntilExpiry <= expirationBuffer;
-        
-        console.log('🕐 Token expiration check:', {
-            isOfficeAddIn: isOfficeAddIn,
-            currentTime: currentTime,
-            expiresAt: expiresAt,
-            timeUntilExpiry: timeUntilExpiry,
-            timeUntilExpiryMinutes: Math.round(timeUntilExpiry / 60),
-            expirationBuffer: expirationBuffer,
-            willExpireSoon: willExpireSoon,
-            currentTimeReadable: new Date(currentTime * 1000).toISOString(),
-            expiresAtReadable: new Date(expiresAt * 1000).toISOString()
-        });
-        
-        return willExpireSoon;
     }
 
-    // Enhanced token renewal with retry logic
+    // Renewal without user interaction: refresh token anywhere, or the silent iframe outside Office
+    public async canRenewSilently(): Promise<boolean> {
+        const user = await this.userManager.getUser().catch(() => null);
+        return !!(user && user.refresh_token) || typeof Office === 'undefined';
+    }
+
+    // Renew tokens - with the refresh token when one was issued, otherwise via a silent iframe sign-in
     public async renewToken(): Promise<void> {
         const isOfficeAddIn = typeof Office !== 'undefined';
+        const currentUser = await this.userManager.getUser().catch(() => null);
+        const hasRefreshToken = !!(currentUser && currentUser.refresh_token);
         
-        // In Office Add-in environments, silent renewal is not supported
-        if (isOfficeAddIn) {
-            console.log('⚠️ Office Add-in environment detected - silent renewal not supported');
-            console.log('🔄 Token expired. User needs to sign in again.');
+        // In Office Add-in environments, iframe-based silent renewal is not supported
+        if (isOfficeAddIn && !hasRefreshToken) {
+            logger.log('⚠️ Office Add-in environment detected and no refresh token - silent renewal not supported');
+            logger.log('🔄 Token expired. User needs to sign in again.');
             
             // Clear auth state and require interactive login
             this.authState.isAuthenticated = false;
@@ -389,27 +503,29 @@ export class AuthService {
         }
         
         try {
-            console.log('🔄 Attempting token renewal...');
+            logger.log(`🔄 Attempting token renewal${hasRefreshToken ? ' with refresh token' : ''}...`);
+            // signinSilent uses the refresh token grant when the user has a refresh token
             const renewedUser = await this.userManager.signinSilent();
             
             if (renewedUser) {
-                console.log('✅ Token renewed successfully');
+                logger.log('✅ Token renewed successfully');
                 this.authState.user = this.extractUserProfile(renewedUser);
                 this.emit('tokenRenewed', this.authState.user);
             }
         } catch (error) {
-            console.error('❌ Token renewal failed:', error);
+            logger.error('❌ Token renewal failed:', error);
             
             // Handle specific renewal errors
             if (error.message?.includes('Frame window timed out')) {
-                console.log('🕒 Silent renewal timed out');
+                logger.log('🕒 Silent renewal timed out');
                 this.handleRenewalTimeout();
             } else if (error.message?.includes('login_required') || 
-                       error.message?.includes('interaction_required')) {
-                console.log('🔐 Interactive login required');
+                       error.message?.includes('interaction_required') ||
+                       error.message?.includes('invalid_grant')) {
+                logger.log('🔐 Interactive login required');
                 this.handleInteractionRequired();
             } else {
-                console.log('❌ Unexpected renewal error');
+                logger.log('❌ Unexpected renewal error');
                 this.handleRenewalError();
             }
             
@@ -419,7 +535,7 @@ export class AuthService {
 
     // Handle silent renewal timeout (common in Office Add-ins)
     private handleRenewalTimeout(): void {
-        console.log('🔄 Handling renewal timeout...');
+        logger.log('🔄 Handling renewal timeout...');
         this.authState.isAuthenticated = false;
         this.authState.user = null;
         this.authState.error = 'Your session has expired. Please sign in again.';
@@ -428,7 +544,7 @@ export class AuthService {
 
     // Handle cases where user interaction is required
     private handleInteractionRequired(): void {
-        console.log('🔐 User interaction required for renewal...');
+        logger.log('🔐 User interaction required for renewal...');
         this.authState.isAuthenticated = false;
         this.authState.user = null;
         this.authState.error = 'Please sign in again to continue.';
@@ -437,7 +553,7 @@ export class AuthService {
 
     // Handle other renewal errors
     private handleRenewalError(): void {
-        console.log('❌ General renewal error occurred...');
+        logger.log('❌ General renewal error occurred...');
         this.authState.isAuthenticated = false;
         this.authState.user = null;
         this.authState.error = 'Authentication failed. Please sign in again.';
@@ -447,21 +563,41 @@ export class AuthService {
     // Logout
     public async logout(): Promise<void> {
         try {
-            console.log('🚪 Starting logout...');
+            logger.log('🚪 Starting logout...');
             await this.userManager.signoutRedirect();
         } catch (error) {
-            console.error('❌ Logout error:', error);
+            logger.error('❌ Logout error:', error);
             throw new AuthenticationError('Logout failed', 'LOGOUT_ERROR');
         }
     }
     
-    // Sign out (clear local state without redirect - better for Office Add-ins)
+    // Sign out of the active account (clear local state without redirect - better for Office Add-ins).
+    // Another signed-in account, if any, becomes active.
     public async signOut(): Promise<void> {
         try {
-            console.log('🚪 Signing out and clearing local state...');
+            logger.log('🚪 Signing out and clearing local state...');
+            const signedOutSub = this.authState.user ? this.authState.user.sub : null;
             
+            // Revoke the refresh token where the provider supports it - best effort
+            try {
+                await this.userManager.revokeTokens();
+            } catch (revokeError) {
+                logger.warn('⚠️ Token revocation skipped:', revokeError);
+            }
+
             // Clear the user manager state
             await this.userManager.removeUser();
+            if (signedOutSub) {
+                await this.accounts.remove(signedOutSub);
+                this.emit('accountRemoved', signedOutSub);
+            }
+
+            const next = (await this.accounts.list())[0];
+            if (next) {
+                logger.log('🔀 Switching to remaining account:', next.profile.email || next.profile.sub);
+                await this.activateAccount(next);
+                return;
+            }
             
             // Clear auth state
             this.authState.isAuthenticated = false;
@@ -469,24 +605,76 @@ export class AuthService {
             this.authState.error = null;
             this.authState.isLoading = false;
             
-            // Clear any additional storage items related to OIDC
-            const storageKeys = Object.keys(localStorage);
-            storageKeys.forEach(key => {
-                if (key.startsWith('oidc.') || key.includes('auth') || key.includes('token')) {
-                    localStorage.removeItem(key);
-                }
-            });
+            // Remove whatever else the auth layer stored (sign-in state, dialog flag) - nothing else
+            clearAuthStorage();
             
             // Emit event
             this.emit('userSignedOut');
             
-            console.log('✅ Successfully signed out');
+            logger.log('✅ Successfully signed out');
         } catch (error) {
-            console.error('❌ Sign out error:', error);
+            logger.error('❌ Sign out error:', error);
             // Don't throw error - we want to clear state even if there are issues
         }
     }
 
+    // Signed-in accounts, most recently used first
+    public async getAccounts(): Promise<AccountSummary[]> {
+        const activeSub = this.authState.user ? this.authState.user.sub : null;
+        return (await this.accounts.list()).map(user => {
+            const profile = this.extractUserProfile(user);
+            return {
+                sub: profile.sub,
+                name: profile.name,
+                email: profile.email,
+                org: profile.org,
+                active: profile.sub === activeSub,
+                expired: !!user.expired
+            };
+        });
+    }
+
+    // Sign in to another account without signing out of the current one
+    public async addAccount(): Promise<void> {
+        const previousSub = this.authState.user ? this.authState.user.sub : null;
+        await this.login({ prompt: 'login' });
+        if (this.authState.user && this.authState.user.sub !== previousSub) {
+            this.emit('accountSwitched', this.authState.user);
+        }
+    }
+
+    public async switchAccount(sub: string): Promise<void> {
+        if (this.authState.user && this.authState.user.sub === sub) {
+            return;
+        }
+        const user = await this.accounts.get(sub);
+        if (!user) {
+            throw new AuthenticationError('That account is no longer signed in. Please sign in again.', 'ACCOUNT_NOT_FOUND');
+        }
+        logger.log('🔀 Switching account:', user.profile.email || sub);
+        await this.activateAccount(user);
+    }
+
+    // Sign out of an account; the active account goes through signOut()
+    public async removeAccount(sub: string): Promise<void> {
+        if (this.authState.user && this.authState.user.sub === sub) {
+            await this.signOut();
+            return;
+        }
+        await this.accounts.remove(sub);
+        this.emit('accountRemoved', sub);
+    }
+
+    // Make a stored account the UserManager's user; expired tokens are renewed on next use
+    private async activateAccount(user: User): Promise<void> {
+        await this.userManager.storeUser(user);
+        // Raises userLoaded, which updates the auth state and marks the account active
+        await this.userManager.events.load(user);
+        if (this.authState.user) {
+            this.emit('accountSwitched', this.authState.user);
+        }
+    }
+
     // Check if user is authenticated
     public isAuthenticated(): boolean {
         return this.authState.isAuthenticated;
@@ -497,9 +685,16 @@ export class AuthService {
         return { ...this.authState };
     }
 
+    // True when the current URL is the authorization response (?code=...&state=... or ?error=...)
+    public isCallbackUrl(): boolean {
+        const params = new URLSearchParams(window.location.search);
+        return params.has('state') && (params.has('code') || params.has('error'));
+    }
+
     // Extract user profile from OIDC user
     private extractUserProfile(user: User): UserProfile {
-        const profile = user.profile;
+        // Custom claims (org, roles) aren't part of the standard claim types
+        const profile = user.profile as { [claim: string]: any };
         return {
             sub: profile.sub,
             name: profile.name || profile.preferred_username || 'Unknown',
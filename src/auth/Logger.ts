@@ -0,0 +1,109 @@
+/*
+ * Logger
+ * console wrapper that redacts JWTs, bearer headers, email addresses and token fields before anything is written,
+ * so sign-in state can be logged without leaking credentials or personal data into the Office/browser console
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const BEARER_PATTERN = /\b(Bearer)\s+[A-Za-z0-9._~+/=-]+/gi;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+// Authorization codes and tokens in callback URLs
+const URL_SECRET_PATTERN = /([?&#](?:code|state|id_token|access_token|refresh_token)=)[^&#\s]+/g;
+
+// Object keys whose values are never logged, whatever they contain (compared lower-case)
+const SENSITIVE_KEYS = [
+    'id_token', 'access_token', 'refresh_token', 'token', 'authorization',
+    'code_verifier', 'client_secret', 'password', 'session_state'
+];
+
+// Nested objects deeper than this are summarised rather than walked
+const MAX_DEPTH = 5;
+
+export function redactString(value: string): string {
+    return value
+        .replace(URL_SECRET_PATTERN, '$1[REDACTED]')
+        .replace(JWT_PATTERN, '[REDACTED_JWT]')
+        .replace(BEARER_PATTERN, '$1 [REDACTED]')
+        .replace(EMAIL_PATTERN, '[REDACTED_EMAIL]');
+}
+
+// Copy of a log argument with secrets removed; the original is never modified
+export function redact(value: any, depth: number = 0, seen: any[] = []): any {
+    if (typeof value === 'string') {
+        return redactString(value);
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (seen.indexOf(value) !== -1) {
+        return '[Circular]';
+    }
+    if (depth >= MAX_DEPTH) {
+        return Array.isArray(value) ? '[Array]' : '[Object]';
+    }
+
+    if (value instanceof Error) {
+        // Errors print better as errors; keep the type and stack with the message scrubbed
+        const copy = new Error(redactString(value.message));
+        copy.name = value.name;
+        copy.stack = value.stack ? redactString(value.stack) : undefined;
+        return copy;
+    }
+
+    const nextSeen = seen.concat([value]);
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, depth + 1, nextSeen));
+    }
+
+    const copy: { [key: string]: any } = {};
+    Object.keys(value).forEach(key => {
+        copy[key] = SENSITIVE_KEYS.indexOf(key.toLowerCase()) !== -1
+            ? '[REDACTED]'
+            : redact(value[key], depth + 1, nextSeen);
+    });
+    return copy;
+}
+
+export class Logger {
+    debug(...args: any[]): void {
+        this.write('debug', args);
+    }
+
+    log(...args: any[]): void {
+        this.write('info', args);
+    }
+
+    info(...args: any[]): void {
+        this.write('info', args);
+    }
+
+    warn(...args: any[]): void {
+        this.write('warn', args);
+    }
+
+    error(...args: any[]): void {
+        this.write('error', args);
+    }
+
+    private write(level: LogLevel, args: any[]): void {
+        const scrubbed = args.map(arg => redact(arg));
+        switch (level) {
+            case 'debug':
+                console.debug(...scrubbed);
+                break;
+            case 'warn':
+                console.warn(...scrubbed);
+                break;
+            case 'error':
+                console.error(...scrubbed);
+                break;
+            default:
+                console.log(...scrubbed);
+        }
+    }
+}
+
+// Create a singleton instance
+export const logger = new Logger();
@@ -0,0 +1,102 @@
+/*
+ * Permissions
+ * Maps the roles and org claims in UserProfile to the capabilities the task pane gates its features on
+ */
+
+import { authService } from './AuthService';
+import { UserProfile } from '../types/auth';
+import { logger } from './Logger';
+
+export type Capability =
+    | 'viewSellerMetrics'
+    | 'invokeAgent'
+    | 'exportData'
+    | 'viewDebugPanel';
+
+export const ALL_CAPABILITIES: Capability[] = ['viewSellerMetrics', 'invokeAgent', 'exportData', 'viewDebugPanel'];
+
+// Shown in "you don't have access" messages
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+    viewSellerMetrics: 'seller metrics',
+    invokeAgent: 'the AI agent assistant',
+    exportData: 'data export',
+    viewDebugPanel: 'development tools'
+};
+
+export interface PermissionPolicy {
+    roles: Record<string, Capability[]>;   // Role claim (case-insensitive) -> capabilities
+    defaultCapabilities: Capability[];     // Signed-in users with no mapped roles
+    allowedOrgs: string[];                 // When non-empty, users from other orgs get no capabilities
+    devHosts: string[];                    // Hosts where the debug panel is always available
+}
+
+const DEFAULT_POLICY: PermissionPolicy = {
+    roles: {
+        'admin': ALL_CAPABILITIES,
+        'developer': ALL_CAPABILITIES,
+        'account-manager': ['viewSellerMetrics', 'invokeAgent', 'exportData'],
+        'analyst': ['viewSellerMetrics', 'exportData'],
+        'viewer': ['viewSellerMetrics']
+    },
+    // The IDP doesn't send a roles claim by default - keep the task pane usable, minus the debug tools
+    defaultCapabilities: ['viewSellerMetrics', 'invokeAgent', 'exportData'],
+    allowedOrgs: [],
+    devHosts: ['localhost', '127.0.0.1']
+};
+
+export class PermissionService {
+    private policy: PermissionPolicy = DEFAULT_POLICY;
+
+    setPolicy(policy: PermissionPolicy): void {
+        this.policy = policy;
+    }
+
+    // Capabilities for a user (defaults to the signed-in user); signed-out users have none
+    getCapabilities(user: UserProfile | null = authService.getAuthState().user): Capability[] {
+        if (!user) {
+            return [];
+        }
+
+        const policy = this.policy;
+        if (policy.allowedOrgs.length > 0 && (!user.org || policy.allowedOrgs.indexOf(user.org) === -1)) {
+            logger.log('🔒 User org not allowed:', user.org);
+            return [];
+        }
+
+        let capabilities: Capability[] = [];
+        const mappedRoles = (user.roles || [])
+            .map(role => role.toLowerCase())
+            .filter(role => policy.roles[role]);
+        if (mappedRoles.length > 0) {
+            mappedRoles.forEach(role => {
+                capabilities = capabilities.concat(policy.roles[role]);
+            });
+        } else {
+            capabilities = policy.defaultCapabilities.slice();
+        }
+
+        if (policy.devHosts.indexOf(window.location.hostname) !== -1) {
+            capabilities.push('viewDebugPanel');
+        }
+
+        return ALL_CAPABILITIES.filter(capability => capabilities.indexOf(capability) !== -1);
+    }
+
+    can(capability: Capability, user?: UserProfile | null): boolean {
+        return this.getCapabilities(user).indexOf(capability) !== -1;
+    }
+
+    // Roles that would grant a capability, for pointing users at what to request
+    getRolesGranting(capability: Capability): string[] {
+        return Object.keys(this.policy.roles).filter(role => this.policy.roles[role].indexOf(capability) !== -1);
+    }
+
+    getAccessDeniedMessage(capability: Capability): string {
+        const roles = this.getRolesGranting(capability);
+        return `You don't have access to ${CAPABILITY_LABELS[capability]}.` +
+            (roles.length > 0 ? ` Ask your administrator for one of these roles: ${roles.join(', ')}.` : '');
+    }
+}
+
+// Create a singleton instance
+export const permissionService = new PermissionService();
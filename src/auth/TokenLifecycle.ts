@@ -0,0 +1,138 @@
+/*
+ * Token Lifecycle Manager
+ * Tracks time-to-expiry of the signed-in session, renews ahead of expiry when that can happen silently,
+ * and otherwise asks the user to sign in again before the token runs out
+ */
+
+import { authService } from './AuthService';
+import { AuthenticationError } from '../types/auth';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { logger } from './Logger';
+
+export interface TokenLifecycleEventMap {
+    countdown: number | null;   // Seconds left, or null when signed out
+    expiring: number;           // Seconds left - raised once per token when it can't be renewed without signing in
+}
+
+// How often the countdown is refreshed (timers are throttled in hidden task panes, so
+// every check recomputes from the clock rather than counting down)
+const CHECK_INTERVAL_MS = 15000;
+
+// Renew, or prompt for sign-in, this long before the token expires
+const RENEWAL_LEAD_SECONDS = 300;
+
+// Extra headroom required on top of a request's timeout
+const REQUEST_MARGIN_SECONDS = 30;
+
+export class TokenLifecycleManager extends TypedEventEmitter<TokenLifecycleEventMap> {
+    private intervalId: number | null = null;
+    private renewing: Promise<void> | null = null;
+    private promptedExpiry: number | null = null;
+
+    constructor() {
+        super();
+        authService.on('userLoaded', () => this.start());
+        authService.on('authSuccess', () => this.start());
+        authService.on('tokenRenewed', () => this.start());
+        authService.on('userUnloaded', () => this.stop());
+        authService.on('userSignedOut', () => this.stop());
+        authService.on('tokenExpired', () => this.stop());
+        authService.on('loginRequired', () => this.stop());
+        authService.on('authenticationFailed', () => this.stop());
+    }
+
+    // Start (or restart) tracking the current token
+    public start(): void {
+        if (this.intervalId === null) {
+            this.intervalId = window.setInterval(() => this.check(), CHECK_INTERVAL_MS);
+        }
+        this.check();
+    }
+
+    public stop(): void {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.promptedExpiry = null;
+        this.emit('countdown', null);
+    }
+
+    // Seconds until the current token expires, or null when there is none
+    public async getSecondsLeft(): Promise<number | null> {
+        const expiresAt = await authService.getTokenExpiry();
+        return expiresAt ? expiresAt - Math.floor(Date.now() / 1000) : null;
+    }
+
+    // Make sure the token outlives a request of the given duration, renewing first if possible.
+    // Resolves true when the token was renewed (callers holding the old token should fetch it again).
+    public async ensureValidFor(durationMs: number): Promise<boolean> {
+        const secondsLeft = await this.getSecondsLeft();
+        if (secondsLeft === null || secondsLeft > durationMs / 1000 + REQUEST_MARGIN_SECONDS) {
+            return false;
+        }
+
+        if (await authService.canRenewSilently()) {
+            logger.log(`🔄 Token expires in ${secondsLeft}s - renewing before a ${Math.round(durationMs / 1000)}s request`);
+            await this.renew();
+            return true;
+        }
+
+        logger.warn(`⏰ Token expires in ${secondsLeft}s - not starting a ${Math.round(durationMs / 1000)}s request`);
+        throw new AuthenticationError(
+            secondsLeft > 0
+                ? `Your session expires in ${formatTimeLeft(secondsLeft)}, before this request could finish. Please sign in again to continue.`
+                : 'Your session has expired. Please sign in again to continue.',
+            'TOKEN_EXPIRING'
+        );
+    }
+
+    private async check(): Promise<void> {
+        if (!authService.isAuthenticated()) {
+            this.stop();
+            return;
+        }
+
+        const expiresAt = await authService.getTokenExpiry();
+        if (!expiresAt) {
+            this.emit('countdown', null);
+            return;
+        }
+
+        const secondsLeft = expiresAt - Math.floor(Date.now() / 1000);
+        this.emit('countdown', secondsLeft);
+
+        if (secondsLeft > RENEWAL_LEAD_SECONDS || this.renewing || this.promptedExpiry === expiresAt) {
+            return;
+        }
+
+        if (await authService.canRenewSilently()) {
+            // renewToken raises its own failure events, which stop the countdown
+            this.renew().catch(error => logger.error('❌ Scheduled token renewal failed:', error));
+        } else {
+            this.promptedExpiry = expiresAt;
+            logger.log(`⏰ Token expires in ${secondsLeft}s and can't be renewed silently - prompting for sign-in`);
+            this.emit('expiring', secondsLeft);
+        }
+    }
+
+    // One renewal at a time, shared by the scheduler and request checks
+    private renew(): Promise<void> {
+        if (!this.renewing) {
+            const clear = () => {
+                this.renewing = null;
+            };
+            this.renewing = authService.renewToken();
+            this.renewing.then(clear, clear);
+        }
+        return this.renewing;
+    }
+}
+
+// "42 min" / "45 s"
+export function formatTimeLeft(seconds: number): string {
+    return seconds >= 60 ? `${Math.floor(seconds / 60)} min` : `${Math.max(seconds, 0)} s`;
+}
+
+// Create a singleton instance
+export const tokenLifecycle = new TokenLifecycleManager();
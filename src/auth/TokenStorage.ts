@@ -0,0 +1,62 @@
+/*
+ * Token Storage
+ * Where the auth layer keeps tokens: in memory (gone when the task pane closes or reloads) or in sessionStorage
+ * (survives reloads, not other windows). Tokens are never written to localStorage; only the short-lived sign-in
+ * request state is.
+ */
+
+import { InMemoryWebStorage, StateStore, WebStorageStateStore } from 'oidc-client-ts';
+import { TokenStorageScope } from '../types/auth';
+
+// Key prefixes owned by the auth layer - sign-out removes these and nothing else
+export const AUTH_STORAGE_PREFIXES = {
+    user: 'oidc.',              // oidc-client-ts user
+    state: 'oidc.state.',       // Sign-in request state (PKCE verifier) - own prefix, as stale-state cleanup
+                                // removes every key under it that isn't a sign-in request
+    accounts: 'oidc.accounts.', // AccountStore
+    dialog: 'authDialog'        // Office dialog sign-in flag
+};
+
+// One in-memory store per page, shared by the stores created for the memory scope
+let memoryStorage: Storage | null = null;
+
+function getStorage(scope: TokenStorageScope): Storage {
+    if (scope === 'memory') {
+        return memoryStorage || (memoryStorage = new InMemoryWebStorage());
+    }
+    return window.sessionStorage;
+}
+
+// StateStore for oidc-client-ts and AccountStore in the given scope
+export function createTokenStore(scope: TokenStorageScope, prefix: string): StateStore {
+    return new WebStorageStateStore({ prefix, store: getStorage(scope) });
+}
+
+// Sign-in request state (PKCE verifier) is in localStorage: signinPopup writes it in the task pane after opening
+// the popup, and the popup's callback has to read it - sessionStorage isn't shared between the two windows.
+// Entries are removed once the callback redeems them.
+export function createSignInStateStore(): StateStore {
+    return new WebStorageStateStore({ prefix: AUTH_STORAGE_PREFIXES.state, store: window.localStorage });
+}
+
+// Remove everything the auth layer stored, in every scope. Keys written by earlier versions
+// to localStorage are removed too.
+export function clearAuthStorage(): void {
+    const stores: Storage[] = [window.sessionStorage, window.localStorage];
+    if (memoryStorage) {
+        stores.push(memoryStorage);
+    }
+
+    const prefixes = Object.keys(AUTH_STORAGE_PREFIXES)
+        .map(name => AUTH_STORAGE_PREFIXES[name as keyof typeof AUTH_STORAGE_PREFIXES]);
+    stores.forEach(store => {
+        const keys: string[] = [];
+        for (let i = 0; i < store.length; i++) {
+            const key = store.key(i);
+            if (key && prefixes.some(prefix => key.indexOf(prefix) === 0)) {
+                keys.push(key);
+            }
+        }
+        keys.forEach(key => store.removeItem(key));
+    });
+}
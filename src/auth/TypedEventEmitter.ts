@@ -0,0 +1,66 @@
+/*
+ * Typed Event Emitter
+ * Event names and payloads come from an event map, so listeners are checked by the compiler
+ */
+
+// Events whose payload is void take no argument
+export type EventArgs<T> = [T] extends [void] ? [] : [T];
+
+export type EventListener<M, K extends keyof M> = (...args: EventArgs<M[K]>) => void;
+
+// once() stores a wrapper; `original` lets off() find it by the listener the caller passed
+type StoredListener<M, K extends keyof M> = EventListener<M, K> & { original?: EventListener<M, K> };
+
+export class TypedEventEmitter<M> {
+    private listeners: { [K in keyof M]?: Array<StoredListener<M, K>> } = {};
+
+    // Subscribe to an event; returns a function that removes the listener
+    public on<K extends keyof M>(event: K, listener: EventListener<M, K>): () => void {
+        const listeners = this.listeners[event] || (this.listeners[event] = []);
+        listeners.push(listener);
+        return () => this.off(event, listener);
+    }
+
+    // Subscribe for the next occurrence only
+    public once<K extends keyof M>(event: K, listener: EventListener<M, K>): () => void {
+        const wrapper: StoredListener<M, K> = ((...args: EventArgs<M[K]>) => {
+            this.off(event, wrapper);
+            return listener(...args);
+        }) as EventListener<M, K>;
+        wrapper.original = listener;
+        return this.on(event, wrapper);
+    }
+
+    public off<K extends keyof M>(event: K, listener: EventListener<M, K>): void {
+        const listeners = this.listeners[event];
+        if (listeners) {
+            for (let i = 0; i < listeners.length; i++) {
+                if (listeners[i] === listener || listeners[i].original === listener) {
+                    listeners.splice(i, 1);
+                    return;
+                }
+            }
+        }
+    }
+
+    // A failing listener is logged and doesn't stop the emitter or the other listeners; async
+    // listeners' rejections are logged the same way
+    protected emit<K extends keyof M>(event: K, ...args: EventArgs<M[K]>): void {
+        const listeners = this.listeners[event];
+        if (!listeners) {
+            return;
+        }
+        // Copy so listeners can unsubscribe while the event is dispatched
+        listeners.slice().forEach(listener => {
+            const logError = (error: any) => console.error(`❌ Error in '${String(event)}' listener:`, error);
+            try {
+                const result: any = listener(...args);
+                if (result && typeof result.then === 'function') {
+                    result.then(undefined, logError);
+                }
+            } catch (error) {
+                logError(error);
+            }
+        });
+    }
+}
@@ -0,0 +1,263 @@
+/*
+ * Exporters
+ * Client-side CSV, XLSX and Markdown generation for the results panel - nothing leaves the task pane
+ */
+
+import { AgentCitation } from '../api/AgentBackend';
+
+export type ExportCell = string | number | null | undefined;
+
+export interface ExportTable {
+  name: string;       // Sheet name in XLSX exports
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+export interface MarkdownSection {
+  heading?: string;
+  text: string;
+  citations?: AgentCitation[];
+}
+
+// Spreadsheet apps run CSV cells starting with these as formulas - prefix them so exported text stays text
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+function toCellText(value: ExportCell): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+// RFC 4180 CSV with a UTF-8 BOM so Excel picks up non-ASCII text (e.g. Japanese seller names)
+export function toCsv(table: ExportTable): Blob {
+  const escape = (value: ExportCell) => {
+    let text = toCellText(value);
+    if (typeof value === 'string' && FORMULA_PREFIXES.indexOf(text.charAt(0)) !== -1) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows: ExportCell[][] = [table.columns as ExportCell[]].concat(table.rows);
+  const lines = rows.map(row => row.map(escape).join(','));
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+}
+
+// Control characters other than tab, line feed and carriage return aren't allowed in XML
+function stripControlCharacters(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code >= 0x20 || code === 0x09 || code === 0x0A || code === 0x0D) {
+      result += text.charAt(i);
+    }
+  }
+  return result;
+}
+
+function escapeXml(text: string): string {
+  return stripControlCharacters(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Spreadsheet column letters: 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(table: ExportTable): string {
+  const rows = [table.columns as ExportCell[]].concat(table.rows).map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      if (typeof value === 'number' && isFinite(value)) {
+        return `<c r="${ref}"><v>${value}</v></c>`;
+      }
+      const text = toCellText(value);
+      return text ? `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>` : '';
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+// Minimal Office Open XML workbook with one sheet per table
+export function toXlsx(tables: ExportTable[]): Blob {
+  const sheetNames = tables.map((table, index) =>
+    // Sheet names: max 31 characters, none of []:*?/\
+    (table.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || `Sheet${index + 1}`)
+  );
+
+  const files: Array<{ path: string; content: string }> = [
+    {
+      path: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        tables.map((_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>'
+    },
+    {
+      path: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheetNames.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        tables.map((_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ).join('') +
+        '</Relationships>'
+    }
+  ].concat(tables.map((table, index) => ({ path: `xl/worksheets/sheet${index + 1}.xml`, content: sheetXml(table) })));
+
+  return new Blob([createZip(files)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Uncompressed ("stored") ZIP archive - enough for XLSX, which Excel reads either way
+function createZip(files: Array<{ path: string; content: string }>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);  // Local file header signature
+    local.setUint16(4, 20, true);          // Version needed to extract
+    local.setUint16(6, 0x0800, true);      // UTF-8 file names
+    local.setUint16(8, 0, true);           // Stored (no compression)
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true);         // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);    // Offset of the local header
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);       // End of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = localParts.concat(centralParts, [new Uint8Array(end.buffer)]);
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip.buffer as ArrayBuffer;
+}
+
+// Markdown document; citations become numbered footnotes with their source locations
+export function toMarkdown(title: string, details: Array<[string, string]>, sections: MarkdownSection[]): Blob {
+  const lines: string[] = [`# ${title}`, ''];
+  details.filter(([, value]) => !!value).forEach(([label, value]) => lines.push(`- **${label}:** ${value}`));
+  lines.push('');
+
+  let footnote = 0;
+  const footnotes: string[] = [];
+  sections.forEach(section => {
+    if (section.heading) {
+      lines.push(`## ${section.heading}`, '');
+    }
+    let text = section.text;
+    const markers: string[] = [];
+    (section.citations || []).forEach(citation => {
+      (citation.retrievedReferences || []).forEach(reference => {
+        footnote++;
+        markers.push(`[^${footnote}]`);
+        const location = reference.location;
+        const uri = (location && (location.s3Location ? location.s3Location.uri : location.type)) || 'source';
+        footnotes.push(`[^${footnote}]: ${uri}`);
+      });
+    });
+    if (markers.length > 0) {
+      text += ` ${markers.join('')}`;
+    }
+    lines.push(text, '');
+  });
+
+  if (footnotes.length > 0) {
+    lines.push(footnotes.join('\n'), '');
+  }
+  return new Blob([lines.join('\n')], { type: 'text/markdown;charset=utf-8' });
+}
+
+// Download a generated file from the task pane
+export function downloadFile(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,77 @@
+/*
+ * Trend Charts
+ * Inline SVG sparklines and line charts for seller metric trends - no charting library needed
+ */
+
+import { TrendPoint } from '../api/MetricSnapshotStore';
+
+export const TREND_UP_COLOR = '#28a745';
+export const TREND_DOWN_COLOR = '#dc3545';
+
+function escapeSvgText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Red when the series ends lower than it started, green otherwise
+export function getTrendColor(points: TrendPoint[]): string {
+  return points.length > 1 && points[points.length - 1].value < points[0].value ? TREND_DOWN_COLOR : TREND_UP_COLOR;
+}
+
+// Scale values into an SVG polyline within the given box
+function toPolyline(points: TrendPoint[], left: number, top: number, width: number, height: number): string {
+  const values = points.map(point => point.value);
+  const min = Math.min.apply(null, values);
+  const max = Math.max.apply(null, values);
+  const range = max - min || 1;
+  const step = points.length > 1 ? width / (points.length - 1) : 0;
+
+  return points.map((point, index) => {
+    const x = left + index * step;
+    // Flat series sit in the middle rather than along the bottom edge
+    const y = max === min ? top + height / 2 : top + height - ((point.value - min) / range) * height;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+}
+
+// Small inline sparkline for a metric card
+export function renderSparkline(points: TrendPoint[], width = 60, height = 16): string {
+  if (points.length < 2) {
+    return '';
+  }
+  const color = getTrendColor(points);
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" style="vertical-align: middle;" aria-hidden="true">` +
+    `<polyline points="${toPolyline(points, 1, 1, width - 2, height - 2)}" fill="none" stroke="${color}" stroke-width="1.5" stroke-linejoin="round" />` +
+    `</svg>`;
+}
+
+// Line chart with min/max and first/last date labels
+export function renderLineChart(
+  title: string,
+  points: TrendPoint[],
+  formatValue: (value: number) => string,
+  formatDate: (date: string) => string
+): string {
+  const width = 280;
+  const height = 90;
+  const plot = { left: 4, top: 14, width: width - 8, height: height - 34 };
+
+  if (points.length < 2) {
+    return '';
+  }
+
+  const values = points.map(point => point.value);
+  const color = getTrendColor(points);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return `<svg width="100%" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeSvgText(title)} trend" style="display: block; margin-bottom: 8px;">` +
+    `<text x="4" y="10" font-size="10" font-weight="600" fill="#495057">${escapeSvgText(title)}</text>` +
+    `<text x="${width - 4}" y="10" font-size="10" text-anchor="end" fill="${color}">${escapeSvgText(formatValue(last.value))}</text>` +
+    `<line x1="${plot.left}" y1="${plot.top + plot.height}" x2="${plot.left + plot.width}" y2="${plot.top + plot.height}" stroke="#e9ecef" />` +
+    `<polyline points="${toPolyline(points, plot.left, plot.top, plot.width, plot.height)}" fill="none" stroke="${color}" stroke-width="2" stroke-linejoin="round" />` +
+    `<text x="4" y="${height - 10}" font-size="9" fill="#6c757d">${escapeSvgText(formatDate(first.date))}</text>` +
+    `<text x="${width - 4}" y="${height - 10}" font-size="9" text-anchor="end" fill="#6c757d">${escapeSvgText(formatDate(last.date))}</text>` +
+    `<text x="${width / 2}" y="${height - 10}" font-size="9" text-anchor="middle" fill="#6c757d">` +
+    `${escapeSvgText(`min ${formatValue(Math.min.apply(null, values))} · max ${formatValue(Math.max.apply(null, values))}`)}</text>` +
+    `</svg>`;
+}
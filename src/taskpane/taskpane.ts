@@ -6,11 +6,34 @@
 /* global document, Office */
 
 import { authService } from '../auth/AuthService';
+import { formatTimeLeft, tokenLifecycle } from '../auth/TokenLifecycle';
+import { Capability, permissionService } from '../auth/Permissions';
+import { logger } from '../auth/Logger';
+import { clearAuthStorage } from '../auth/TokenStorage';
 import { UserProfile } from '../types/auth';
-import { sellerHistoryService } from '../api/SellerHistoryService';
-import { bedrockAgentClient, BedrockAgentResponse } from '../api/BedrockAgentClient';
-import { lambdaAgentClient, LambdaAgentResponse } from '../api/LambdaAgentClient';
-import { bedrockAgentCoreClient } from '../api/BedrockAgentCoreClient';
+import { MarketplaceHistoryResult, sellerHistoryService } from '../api/SellerHistoryService';
+import { merchantResolver, MerchantSource, ResolvedMerchant } from '../api/MerchantResolver';
+import { Money, SchemaWarning, SellerActivity, SellerHistory, SellerOpportunity } from '../api/SellerMetricsSchema';
+import { Marketplace, marketplaceRegistry } from '../api/MarketplaceRegistry';
+import { metricSnapshotStore, SnapshotMetric, TrendPoint } from '../api/MetricSnapshotStore';
+import { renderLineChart, renderSparkline } from './TrendCharts';
+import { downloadFile, ExportTable, toCsv, toMarkdown, toXlsx } from './Exporters';
+import { agentBackendRegistry } from '../api/AgentBackendRegistry';
+import { ApiError } from '../api/HttpClient';
+import { AgentBackendError, AgentCitation, AgentResponse, AgentStreamHandler, getTraceSteps } from '../api/AgentBackend';
+import { conversationService, ConversationTurn } from '../api/ConversationService';
+import {
+  activityService,
+  ActivityService,
+  ActivityListResult,
+  ActivityRecord,
+  ActivityStatus,
+  ActivityWriteResult,
+  ACTIVITY_STATUSES,
+  DEFAULT_ACTIVITY_STATUS,
+  getAllowedTransitions,
+  isActivityStatus
+} from '../api/ActivityService';
 
 // Check if we're running in Office context or standalone browser
 let isInOfficeContext = false;
@@ -36,13 +59,20 @@ function handleCallbackRouting(): boolean {
   console.log("🌍 Current path:", currentPath);
   console.log("🔗 Current hash:", hash);
   
-  // Check if this is an authentication callback by looking for id_token in URL hash
-  if (hash.includes('id_token=')) {
+  // Opened as the Office sign-in dialog - send this window to the IDP
+  if (authService.isDialogSignInStart()) {
+    console.log("🪟 Starting sign-in in Office dialog...");
+    authService.startDialogSignIn();
+    return true;
+  }
+  
+  // Check if this is an authentication callback (authorization code response in the query string)
+  if (authService.isCallbackUrl()) {
     console.log("🎯 Processing authentication callback...");
     
-    // Let oidc-client handle the callback
+    // Let oidc-client-ts exchange the code and hand the result back to the opener
     authService.handleCallback().then((user) => {
-      console.log("✅ Callback processed successfully:", user);
+      logger.log("✅ Callback processed successfully:", user);
       
       // Clean up the URL by removing the hash
       if (window.history && typeof window.history.replaceState === 'function') {
@@ -83,15 +113,14 @@ async function initializeAuth() {
     
     // Check if user is already authenticated
     const user = await authService.getUser();
-    console.log("👤 Current user:", user);
+    logger.log("👤 Current user:", user);
     
     // Update UI based on authentication state
     updateAuthUI();
     
-    // If authenticated, immediately display user identity
+    // updateAuthUI has already displayed the user identity
     if (user) {
-      console.log("✅ User authenticated, displaying identity...");
-      displayUserIdentity();
+      tokenLifecycle.start();
     }
     
     console.log("✅ Authentication initialized successfully");
@@ -103,10 +132,15 @@ async function initializeAuth() {
 
 // Set up event listeners for token-related events
 function setupTokenEventListeners() {
-  // Token expiration warning
-  authService.on('accessTokenExpiring', () => {
+  // Token expiring and can't be renewed silently - ask for sign-in before it runs out
+  tokenLifecycle.on('expiring', (secondsLeft: number) => {
     console.log('⏰ Token expiring...');
-    showInfo('Your session will expire soon. If you experience issues, please sign in again.');
+    showReAuthenticationPrompt(secondsLeft);
+  });
+
+  // Keep the session countdown in the greeting panel current
+  tokenLifecycle.on('countdown', (secondsLeft: number | null) => {
+    updateSessionCountdown(secondsLeft);
   });
 
   // Token expired - show clear re-authentication prompt in Office Add-ins
@@ -125,16 +159,16 @@ function setupTokenEventListeners() {
     updateAuthUI(); // This will show the login interface
   });
 
-  // Token renewal successful (only in non-Office environments)
+  // Token renewal successful (refresh token, or silent renewal outside Office)
   authService.on('tokenRenewed', (user) => {
-    console.log('✅ Token renewed successfully', user);
+    logger.log('✅ Token renewed successfully', user);
     showSuccess('Session renewed successfully!');
     updateAuthUI();
   });
 
   // Listen for successful authentication to update UI immediately
   authService.on('authSuccess', (user) => {
-    console.log('🎉 Authentication successful, updating UI...', user);
+    logger.log('🎉 Authentication successful, updating UI...', user);
     updateAuthUI();
   });
 
@@ -150,6 +184,24 @@ function setupTokenEventListeners() {
     updateAuthUI();
   });
 
+  // Another signed-in account became active - drop what was shown for the previous one
+  authService.on('accountSwitched', (user) => {
+    logger.log('👥 Switched account:', user.sub);
+    lastSellerHistory = null;
+    hideApiResults();
+    renderConversation(getCurrentItemKey());
+    updateAuthUI();
+    showSuccess(`Switched to ${user.name || user.email || 'account'}`);
+    // Writes queued under this account while it was inactive
+    activityService.replayQueue()
+      .then(count => {
+        if (count > 0) {
+          showBanner(`${count} queued ${count === 1 ? 'activity' : 'activities'} synced to the activity store`, true);
+        }
+      })
+      .catch(error => console.error('❌ Activity queue replay failed:', error));
+  });
+
   // Silent renewal error
   authService.on('silentRenewError', (error) => {
     console.error('🔄 Silent renewal error:', error);
@@ -195,6 +247,9 @@ function updateAuthUI() {
     // Display user identity in the panel
     console.log("🆔 Displaying user identity panel...");
     displayUserIdentity();
+
+    // Hide or disable what the user's roles don't grant
+    applyPermissions();
     
     // Setup debug buttons for authenticated users
     setupDebugButtons();
@@ -224,13 +279,8 @@ function updateAuthUI() {
         try {
           await authService.signOut();
           
-          // Also manually clear any remaining OIDC data
-          Object.keys(localStorage).forEach(key => {
-            if (key.startsWith('oidc.') || key.includes('auth') || key.includes('token')) {
-              localStorage.removeItem(key);
-              console.log('🗑️ Cleared:', key);
-            }
-          });
+          // Also clear the other signed-in accounts and any leftover sign-in state
+          clearAuthStorage();
           
           showSuccess("Auth data cleared! You can now test fresh login.");
           
@@ -589,21 +639,19 @@ export async function runStandalone() {
 
 
 
+// Bumped on every displayUserIdentity call so an older, slower call doesn't add a second panel
+let identityGeneration = 0;
+
 async function displayUserIdentity() {
   const greetingContainer = document.getElementById("user-greeting-container");
   if (!greetingContainer) return;
+  const generation = ++identityGeneration;
 
   try {
     const user = await authService.getUser();
     
     if (!user) return;
 
-    // Clear previous user info
-    const existingUserInfo = document.getElementById("user-identity-section");
-    if (existingUserInfo) {
-      existingUserInfo.remove();
-    }
-
     // Create simple user greeting section
     const userIdentitySection = document.createElement("div");
     userIdentitySection.id = "user-identity-section";
@@ -612,11 +660,21 @@ async function displayUserIdentity() {
     userIdentitySection.innerHTML = `
       <div class="user-greeting">
         <h2>Hi ${user.name || user.email || 'User'}!</h2>
+        <div id="session-countdown" style="font-size: 12px; color: #6c757d;"></div>
       </div>
     `;
 
-    // Insert into the dedicated greeting container
-    greetingContainer.appendChild(userIdentitySection);
+    userIdentitySection.appendChild(await createAccountSwitcher());
+    if (generation !== identityGeneration) return;
+
+    // Swap in for the previous user info, or insert into the dedicated greeting container
+    const existingUserInfo = document.getElementById("user-identity-section");
+    if (existingUserInfo && existingUserInfo.parentNode) {
+      existingUserInfo.parentNode.replaceChild(userIdentitySection, existingUserInfo);
+    } else {
+      greetingContainer.appendChild(userIdentitySection);
+    }
+    updateSessionCountdown(await tokenLifecycle.getSecondsLeft());
 
   } catch (error) {
     console.error("❌ Error displaying user identity:", error);
@@ -626,6 +684,126 @@ async function displayUserIdentity() {
 
 
 
+// Account picker (when more than one account is signed in) and "Add account" button
+async function createAccountSwitcher(): Promise<HTMLElement> {
+  const container = document.createElement("div");
+  container.id = "account-switcher-container";
+  container.style.cssText = "display: flex; gap: 6px; align-items: center; margin-top: 6px;";
+
+  const accounts = await authService.getAccounts();
+  if (accounts.length > 1) {
+    const select = document.createElement("select");
+    select.id = "account-switcher";
+    select.title = "Switch account";
+    select.style.cssText = "flex: 1; min-width: 0; font-size: 12px;";
+    accounts.forEach(account => {
+      const option = document.createElement("option");
+      option.value = account.sub;
+      option.textContent = (account.email || account.name || account.sub) + (account.expired ? " (signed out)" : "");
+      option.selected = account.active;
+      select.appendChild(option);
+    });
+    select.onchange = async () => {
+      select.disabled = true;
+      try {
+        await authService.switchAccount(select.value);
+      } catch (error) {
+        console.error("❌ Account switch failed:", error);
+        showError("Could not switch account: " + error.message);
+        displayUserIdentity();
+      }
+    };
+    container.appendChild(select);
+  }
+
+  const addButton = document.createElement("button");
+  addButton.id = "add-account-btn";
+  addButton.className = "ms-Button";
+  addButton.style.cssText = "font-size: 12px; padding: 2px 8px;";
+  addButton.textContent = "➕ Add account";
+  addButton.onclick = async () => {
+    try {
+      await authService.addAccount();
+    } catch (error) {
+      console.error("❌ Add account failed:", error);
+      showError("Could not add account: " + error.message);
+    }
+  };
+  container.appendChild(addButton);
+
+  return container;
+}
+
+// Gate controls on the signed-in user's capabilities. Elements opt in with data-capability;
+// data-capability-mode="disable" keeps a section visible but disabled, with a no-access note.
+function applyPermissions() {
+  const gated = document.querySelectorAll("[data-capability]");
+  for (let i = 0; i < gated.length; i++) {
+    const element = gated[i] as HTMLElement;
+    const capability = element.getAttribute("data-capability") as Capability;
+    const allowed = permissionService.can(capability);
+
+    if (element.getAttribute("data-capability-mode") === "disable") {
+      setSectionAccess(element, capability, allowed);
+    } else if (allowed) {
+      element.classList.remove("capability-hidden");
+    } else {
+      element.classList.add("capability-hidden");
+    }
+  }
+}
+
+function setSectionAccess(section: HTMLElement, capability: Capability, allowed: boolean) {
+  const controls = section.querySelectorAll("button, input, select, textarea");
+  for (let i = 0; i < controls.length; i++) {
+    const control = controls[i] as HTMLInputElement;
+    if (allowed) {
+      // Only re-enable what we disabled, so controls disabled for other reasons stay that way
+      if (control.getAttribute("data-capability-disabled")) {
+        control.removeAttribute("data-capability-disabled");
+        control.disabled = false;
+      }
+    } else if (!control.disabled) {
+      control.setAttribute("data-capability-disabled", "true");
+      control.disabled = true;
+    }
+  }
+
+  let notice = section.querySelector(".capability-notice");
+  if (allowed) {
+    if (notice) notice.parentNode.removeChild(notice);
+  } else if (!notice) {
+    notice = document.createElement("p");
+    notice.className = "capability-notice";
+    notice.textContent = `🔒 ${permissionService.getAccessDeniedMessage(capability)}`;
+    // Right under the section heading
+    const heading = section.querySelector("h3");
+    section.insertBefore(notice, heading ? heading.nextSibling : section.firstChild);
+  }
+}
+
+// Guard for handlers reached other than through a gated control
+function requireCapability(capability: Capability): boolean {
+  if (permissionService.can(capability)) {
+    return true;
+  }
+  showError(permissionService.getAccessDeniedMessage(capability));
+  return false;
+}
+
+// Time left in the session, turning amber in the last 10 minutes
+function updateSessionCountdown(secondsLeft: number | null) {
+  const countdown = document.getElementById("session-countdown");
+  if (!countdown) return;
+
+  if (secondsLeft === null) {
+    countdown.textContent = "";
+    return;
+  }
+  countdown.textContent = secondsLeft > 0 ? `⏱️ Session expires in ${formatTimeLeft(secondsLeft)}` : "⏱️ Session expired";
+  countdown.style.color = secondsLeft <= 600 ? "#d97706" : "#6c757d";
+}
+
 // Helper function to show success messages
 function showSuccess(message: string) {
   const successDiv = document.createElement("div");
@@ -680,8 +858,8 @@ function showInfo(message: string) {
   }, 4000);
 }
 
-// Show a prominent re-authentication prompt
-function showReAuthenticationPrompt() {
+// Show a prominent re-authentication prompt - before expiry when secondsLeft is given, otherwise after it
+function showReAuthenticationPrompt(secondsLeft?: number) {
   // Remove any existing prompt
   const existingPrompt = document.getElementById("reauth-prompt");
   if (existingPrompt) {
@@ -704,13 +882,17 @@ function showReAuthenticationPrompt() {
     animation: slideIn 0.3s ease-out, pulse 2s infinite;
   `;
   
+  const expiring = secondsLeft !== undefined && secondsLeft > 0;
   promptDiv.innerHTML = `
     <div style="margin-bottom: 15px;">
-      <strong>🔐 Session Expired</strong>
+      <strong>🔐 ${expiring ? "Session Expiring" : "Session Expired"}</strong>
     </div>
     <div style="margin-bottom: 20px; font-size: 14px; opacity: 0.9;">
-      Your authentication session has expired and couldn't be renewed automatically.<br>
-      Please sign in again to continue using the application.
+      ${expiring
+        ? `Your authentication session expires in ${formatTimeLeft(secondsLeft)} and can't be renewed automatically.<br>
+      Sign in again now to avoid interrupting long-running requests.`
+        : `Your authentication session has expired and couldn't be renewed automatically.<br>
+      Please sign in again to continue using the application.`}
     </div>
     <button id="reauth-btn" style="
       background: white;
@@ -874,8 +1056,13 @@ async function logEmailActivity(emailContent: string, container: HTMLElement, em
     const user = await authService.getUser();
     const dueDate = getCurrentDueDate();
     
-    // Prepare email data for logging
-    const emailData = {
+    // Prepare email data for logging - the Outlook item ID keys the idempotent write
+    const itemId = emailItem?.itemId || `standalone-${Date.now()}`;
+    const emailData: ActivityRecord = {
+      activityId: ActivityService.activityIdForItem(itemId),
+      itemId: itemId,
+      conversationId: emailItem?.conversationId,
+      senderEmail: emailItem?.from?.emailAddress || "",
       timestamp: new Date().toISOString(),
       user: user?.name || "Unknown User",
       emailLength: emailContent.length,
@@ -883,14 +1070,13 @@ async function logEmailActivity(emailContent: string, container: HTMLElement, em
       subject: emailItem?.subject || "No Subject",
       hasAttachments: emailItem?.attachments?.length > 0 || false,
       dueDate: dueDate,
-      status: "WORK IN PROGRESS",
+      status: DEFAULT_ACTIVITY_STATUS,
       activityType: "email_logged"
     };
 
-    // Log to console (in a real app, this would go to a logging service)
-    console.log("📧 EMAIL ACTIVITY LOGGED:");
+    console.log("📧 EMAIL ACTIVITY:");
     console.log("🕐 Timestamp:", emailData.timestamp);
-    console.log("👤 User:", emailData.user);
+    logger.log("👤 User:", emailData.user);
     console.log("📄 Subject:", emailData.subject);
     console.log("📊 Email Length:", emailData.emailLength, "characters");
     console.log("📊 Word Count:", emailData.wordCount, "words");
@@ -919,40 +1105,6 @@ async function logEmailActivity(emailContent: string, container: HTMLElement, em
       `;
     }
 
-    // Call agent for brief email summary
-    let agentResponse = "";
-    try {
-      // Extract sender email for seller lookup
-      const senderEmail = emailItem?.from?.emailAddress || "";
-      
-      const summaryPrompt = `Create email activity with brief summary:
-
-Subject: ${emailData.subject}
-${emailData.dueDate ? `Due Date: ${emailData.dueDate}` : ''}
-${senderEmail ? `Sender Email: ${senderEmail}` : ''}
-
-Email Content:
-${emailContent}
-
-Instructions:
-- Set status to WORK IN PROGRESS by default
-- FIRST: Call the seller lookup tool with contactType="EMAIL" and contactValue="${senderEmail}" to get the seller name
-- Include the seller name in the activity description (e.g., "Email activity from [Seller Name]:")
-- Provide only a brief summary of this email in 2-3 sentences
-- If seller lookup fails, proceed without seller name`;
-
-      console.log("🤖 Calling Bedrock Agent Core for brief summary...");
-      agentResponse = await invokeAgent(summaryPrompt);
-      console.log("✅ Bedrock Agent Core summary completed");
-    } catch (error) {
-      console.error("⚠️ Agent summary failed:", error);
-      agentResponse = "Brief summary unavailable at the moment.";
-    }
-
-    // Remove loading message
-    const loading = document.getElementById("loading-msg");
-    if (loading) loading.remove();
-
     // Create main results container
     let mainContainer = document.createElement("div");
     mainContainer.style.cssText = `
@@ -980,7 +1132,6 @@ Instructions:
     aiContainer.appendChild(aiTitle);
 
     let aiResponse = document.createElement("div");
-    aiResponse.textContent = agentResponse;
     aiResponse.style.cssText = `
       color: #333;
       line-height: 1.5;
@@ -988,9 +1139,128 @@ Instructions:
       white-space: pre-wrap;
     `;
     aiContainer.appendChild(aiResponse);
-
     mainContainer.appendChild(aiContainer);
 
+    // Cancel button for the in-flight summary - lives in the loading message, then moves into the summary card
+    const summaryAbortController = new AbortController();
+    const summaryCancelBtn = createAgentCancelButton(() => summaryAbortController.abort());
+    loadingMsg.appendChild(summaryCancelBtn);
+
+    // Stream partial summary text into the Brief Summary card as it arrives
+    const renderSummaryChunk = (delta: string, fullText: string) => {
+      const loading = document.getElementById("loading-msg");
+      if (loading) loading.remove();
+      if (!mainContainer.parentNode) {
+        aiContainer.appendChild(summaryCancelBtn);
+        container.appendChild(mainContainer);
+      }
+      aiResponse.textContent = fullText;
+    };
+
+    // Call agent for brief email summary
+    let agentResponse = "";
+    let answeredBy = "";
+    let summaryCitations: AgentCitation[] = [];
+    let summaryTrace: any = null;
+    try {
+      // Sender email for seller lookup
+      const senderEmail = emailData.senderEmail;
+      
+      const summaryPrompt = `Create email activity with brief summary:
+
+Subject: ${emailData.subject}
+${emailData.dueDate ? `Due Date: ${emailData.dueDate}` : ''}
+${senderEmail ? `Sender Email: ${senderEmail}` : ''}
+
+Email Content:
+${emailContent}
+
+Instructions:
+- Set status to ${DEFAULT_ACTIVITY_STATUS} by default
+- FIRST: Call the seller lookup tool with contactType="EMAIL" and contactValue="${senderEmail}" to get the seller name
+- Include the seller name in the activity description (e.g., "Email activity from [Seller Name]:")
+- Provide only a brief summary of this email in 2-3 sentences
+- If seller lookup fails, proceed without seller name`;
+
+      console.log("🤖 Calling agent for brief summary...");
+      const summary = await invokeAgent(summaryPrompt, renderSummaryChunk, summaryAbortController.signal);
+      agentResponse = summary.response || "Agent response received but no content.";
+      answeredBy = getBackendDisplayName(summary.backendId);
+      summaryCitations = summary.citations || [];
+      emailData.summary = agentResponse;
+      summaryTrace = summary.trace;
+      console.log(`✅ Agent summary completed by ${answeredBy}`);
+    } catch (error) {
+      if (isCancelledError(error)) {
+        console.log("🛑 Agent summary cancelled by user");
+        agentResponse = aiResponse.textContent ? `${aiResponse.textContent}\n\n(cancelled)` : "Brief summary cancelled.";
+      } else {
+        console.error("⚠️ Agent summary failed:", error);
+        agentResponse = "Brief summary unavailable at the moment.";
+      }
+    }
+
+    // Remove loading message
+    const loading = document.getElementById("loading-msg");
+    if (loading) loading.remove();
+    summaryCancelBtn.remove();
+    if (summaryCitations.length > 0) {
+      aiResponse.textContent = "";
+      aiResponse.appendChild(renderCitedText(agentResponse, summaryCitations));
+      aiContainer.appendChild(renderCitationReferences(summaryCitations));
+    } else {
+      aiResponse.textContent = agentResponse;
+    }
+
+    const summaryTraceInspector = renderTraceInspector(summaryTrace);
+    if (summaryTraceInspector) {
+      aiContainer.appendChild(summaryTraceInspector);
+    }
+
+    if (answeredBy) {
+      let aiSource = document.createElement("div");
+      aiSource.textContent = `Answered by ${answeredBy}`;
+      aiSource.style.cssText = `
+        margin-top: 8px;
+        color: #6c757d;
+        font-size: 11px;
+      `;
+      aiContainer.appendChild(aiSource);
+    }
+
+    if (emailData.summary && permissionService.can('exportData')) {
+      const exportSummaryBtn = document.createElement("button");
+      exportSummaryBtn.textContent = "⬇️ Markdown";
+      exportSummaryBtn.title = "Download this summary as Markdown";
+      exportSummaryBtn.style.cssText = `
+        margin-top: 8px;
+        padding: 2px 8px;
+        font-size: 11px;
+        cursor: pointer;
+      `;
+      exportSummaryBtn.onclick = () => downloadFile(
+        `summary-${exportFileDate()}.md`,
+        toMarkdown(`Email summary: ${emailData.subject}`, [
+          ['From', emailData.senderEmail || ''],
+          ['Logged by', emailData.user],
+          ['Logged at', new Date(emailData.timestamp).toLocaleString()],
+          ['Due date', emailData.dueDate || ''],
+          ['Answered by', answeredBy]
+        ], [{ text: emailData.summary || '', citations: summaryCitations }])
+      );
+      aiContainer.appendChild(exportSummaryBtn);
+    }
+
+    // Write the activity to the store (queued in IndexedDB if the store is unreachable)
+    let writeResult: ActivityWriteResult | null = null;
+    let writeError: Error | null = null;
+    try {
+      writeResult = await activityService.logActivity(emailData);
+    } catch (error) {
+      console.error("❌ Activity store write failed:", error);
+      writeError = error as Error;
+    }
+
     // Create activity log section
     let logContainer = document.createElement("div");
     logContainer.style.cssText = `
@@ -1002,7 +1272,13 @@ Instructions:
     `;
 
     let logTitle = document.createElement("h4");
-    logTitle.textContent = "📝 Activity Logged";
+    if (writeResult?.state === 'saved') {
+      logTitle.textContent = "📝 Activity Logged";
+    } else if (writeResult?.state === 'queued') {
+      logTitle.textContent = "📥 Activity Queued";
+    } else {
+      logTitle.textContent = "⚠️ Activity Not Saved";
+    }
     logTitle.style.cssText = `
       margin: 0 0 10px 0;
       color: #17a2b8;
@@ -1014,10 +1290,14 @@ Instructions:
     logDetails.innerHTML = `
       <p style="margin: 5px 0; font-size: 13px;"><strong>Timestamp:</strong> ${emailData.timestamp}</p>
       <p style="margin: 5px 0; font-size: 13px;"><strong>User:</strong> ${emailData.user}</p>
-      <p style="margin: 5px 0; font-size: 13px;"><strong>Status:</strong> <span style="color: #ffc107; font-weight: 600;">🚧 ${emailData.status}</span></p>
       <p style="margin: 5px 0; font-size: 13px;"><strong>Email Stats:</strong> ${emailData.wordCount} words, ${emailData.emailLength} characters</p>
       ${emailData.dueDate ? `<p style="margin: 5px 0; font-size: 13px;"><strong>Due Date:</strong> ${emailData.dueDate}</p>` : ''}
-      <p style="margin: 5px 0; font-size: 13px;"><strong>Activity:</strong> Email activity created with brief summary</p>
+      <p style="margin: 5px 0; font-size: 13px;"><strong>Activity ID:</strong> ${emailData.activityId}</p>
+      <p style="margin: 5px 0; font-size: 13px;"><strong>Store:</strong> ${
+        writeResult?.state === 'saved' ? '✅ Saved to activity store' :
+        writeResult?.state === 'queued' ? '📥 Offline - queued, will sync when you reconnect' :
+        `❌ ${writeError?.message || 'Not saved'}`
+      }</p>
     `;
     logDetails.style.cssText = `
       color: #333;
@@ -1025,13 +1305,30 @@ Instructions:
     `;
     logContainer.appendChild(logDetails);
 
+    // Status can be moved on from the card once the activity exists (saved or queued)
+    const savedRecord = writeResult ? writeResult.record : emailData;
+    logContainer.insertBefore(
+      writeResult ? createStatusControl(savedRecord) : createStatusBadge(savedRecord.status),
+      logDetails
+    );
+
     mainContainer.appendChild(logContainer);
-    container.appendChild(mainContainer);
+    if (!mainContainer.parentNode) {
+      container.appendChild(mainContainer);
+    }
 
-    // Show success banner
-    showBanner("Email activity created with summary!", true);
+    // Banner reflects the actual store write
+    if (writeResult?.state === 'saved') {
+      showBanner("Email activity saved with summary!", true);
+      console.log("✅ Email activity saved with brief summary successfully");
+    } else if (writeResult?.state === 'queued') {
+      showBanner("Activity store unreachable - activity queued and will sync when you reconnect", false);
+    } else {
+      showBanner("Failed to save email activity", false);
+    }
 
-    console.log("✅ Email activity created with brief summary successfully");
+    // Refresh the history so the new activity shows up
+    loadActivityHistory();
 
   } catch (error) {
     // Remove loading message
@@ -1046,14 +1343,372 @@ Instructions:
   }
 }
 
+// Activity history for the open item's sender and conversation
+let historyRecords: { sender: ActivityRecord[]; conversation: ActivityRecord[] } = { sender: [], conversation: [] };
+
+// Seller history from the last "Get Seller Metrics" call - its activities are merged into the sender history
+let lastSellerHistory: SellerHistory | null = null;
+
+async function loadActivityHistory() {
+  const historyStatus = document.getElementById("history-status");
+  const loadHistoryBtn = document.getElementById("load-history-btn") as HTMLButtonElement;
+
+  if (!authService.isAuthenticated()) {
+    if (historyStatus) historyStatus.textContent = "Sign in to see activity history.";
+    return;
+  }
+
+  const item = typeof Office !== 'undefined' ? Office.context?.mailbox?.item : null;
+  const senderEmail = item?.from?.emailAddress || "";
+  const conversationId = item?.conversationId || "";
+
+  try {
+    if (loadHistoryBtn) loadHistoryBtn.disabled = true;
+    if (historyStatus) historyStatus.textContent = "⏳ Loading history...";
+
+    const noActivities: ActivityListResult = { activities: [], offline: false };
+    const [senderResult, conversationResult] = await Promise.all([
+      senderEmail ? activityService.getActivities({ senderEmail }) : Promise.resolve(noActivities),
+      conversationId ? activityService.getActivities({ conversationId }) : Promise.resolve(noActivities)
+    ]);
+
+    const sellerActivities = (lastSellerHistory?.activities || []).map(ActivityService.fromSellerActivity);
+    historyRecords = {
+      sender: ActivityService.mergeActivities(sellerActivities, senderResult.activities),
+      conversation: conversationResult.activities
+    };
+
+    const offline = senderResult.offline || conversationResult.offline;
+    if (offline) {
+      showBanner("Activity store unreachable - showing activities logged offline only", false);
+    }
+    if (historyStatus) {
+      historyStatus.textContent = (senderEmail || conversationId ?
+        `Sender: ${senderEmail || 'n/a'}` :
+        "No email open - showing seller activities only.") +
+        (offline ? " (offline - queued activities only)" : "");
+    }
+    updateHistoryStatusFilter();
+    renderActivityHistory();
+  } catch (error) {
+    console.error("❌ Failed to load activity history:", error);
+    if (historyStatus) historyStatus.textContent = `❌ ${(error as Error).message}`;
+  } finally {
+    if (loadHistoryBtn) loadHistoryBtn.disabled = false;
+  }
+}
+
+// Offer every status present in the loaded history
+function updateHistoryStatusFilter() {
+  const statusFilter = document.getElementById("history-status-filter") as HTMLSelectElement;
+  if (!statusFilter) return;
+
+  const selected = statusFilter.value;
+  const statuses: string[] = [];
+  historyRecords.sender.concat(historyRecords.conversation).forEach(record => {
+    if (record.status && statuses.indexOf(record.status) === -1) {
+      statuses.push(record.status);
+    }
+  });
+
+  statusFilter.innerHTML = '<option value="">All statuses</option>';
+  statuses.sort().forEach(status => {
+    const option = document.createElement("option");
+    option.value = status;
+    option.textContent = status;
+    statusFilter.appendChild(option);
+  });
+  statusFilter.value = statuses.indexOf(selected) !== -1 ? selected : "";
+}
+
+function renderActivityHistory() {
+  const statusFilter = document.getElementById("history-status-filter") as HTMLSelectElement;
+  const status = statusFilter ? statusFilter.value : "";
+
+  renderHistoryList(document.getElementById("history-sender-list"), historyRecords.sender, status);
+  renderHistoryList(document.getElementById("history-conversation-list"), historyRecords.conversation, status);
+}
+
+function renderHistoryList(listElement: HTMLElement | null, records: ActivityRecord[], status: string) {
+  if (!listElement) return;
+
+  listElement.innerHTML = "";
+  const filtered = records.filter(record => !status || record.status === status);
+  if (filtered.length === 0) {
+    listElement.innerHTML = '<p style="margin: 0; font-size: 12px; color: #6c757d;">No activities found.</p>';
+    return;
+  }
+
+  filtered.forEach(record => {
+    const entry = document.createElement("div");
+    entry.style.cssText = `
+      padding: 8px;
+      margin-bottom: 8px;
+      background: #f8f9fa;
+      border: 1px solid #e9ecef;
+      border-radius: 4px;
+      font-size: 12px;
+      line-height: 1.4;
+    `;
+
+    const heading = document.createElement("div");
+    heading.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      gap: 8px;
+      font-weight: 600;
+      color: #495057;
+    `;
+    const subject = document.createElement("span");
+    subject.textContent = record.subject;
+    heading.appendChild(subject);
+    heading.appendChild(createStatusBadge(record.status));
+    entry.appendChild(heading);
+
+    if (record.summary) {
+      const summary = document.createElement("div");
+      summary.textContent = record.summary;
+      summary.style.cssText = `
+        margin: 4px 0;
+        color: #333;
+        white-space: pre-wrap;
+      `;
+      entry.appendChild(summary);
+    }
+
+    const meta = document.createElement("div");
+    meta.textContent = [
+      `👤 ${record.user}`,
+      record.timestamp ? `🕐 ${new Date(record.timestamp).toLocaleString()}` : '',
+      record.dueDate ? `📅 Due ${new Date(record.dueDate).toLocaleString()}` : ''
+    ].filter(part => !!part).join('  ·  ');
+    meta.style.cssText = `
+      color: #6c757d;
+      font-size: 11px;
+    `;
+    entry.appendChild(meta);
+
+    if (isEditableActivity(record)) {
+      entry.appendChild(createStatusControl(record));
+    }
+
+    listElement.appendChild(entry);
+  });
+}
+
+// Only activities logged from the add-in live in the activity store; seller-system activities are read-only
+function isEditableActivity(record: ActivityRecord): boolean {
+  return record.activityType === "email_logged" && isActivityStatus(record.status);
+}
+
+function createStatusBadge(status: string): HTMLElement {
+  const config = isActivityStatus(status) ? ACTIVITY_STATUSES[status] : null;
+  const badge = document.createElement("span");
+  badge.textContent = config ? `${config.icon} ${config.label}` : status;
+  badge.style.cssText = `
+    color: ${config ? config.color : '#856404'};
+    background: #f8f9fa;
+    border: 1px solid ${config ? config.color : '#ffeeba'};
+    border-radius: 3px;
+    padding: 0 4px;
+    font-size: 12px;
+    font-weight: 600;
+    white-space: nowrap;
+  `;
+  return badge;
+}
+
+// Status dropdown offering the allowed transitions, plus the recorded transition history
+function createStatusControl(record: ActivityRecord): HTMLElement {
+  const control = document.createElement("div");
+  control.style.cssText = `
+    margin: 6px 0;
+    font-size: 12px;
+  `;
+
+  const row = document.createElement("div");
+  row.style.cssText = `
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  `;
+  const label = document.createElement("strong");
+  label.textContent = "Status:";
+  row.appendChild(label);
+  row.appendChild(createStatusBadge(record.status));
+
+  const transitions = getAllowedTransitions(record.status);
+  const select = document.createElement("select");
+  select.style.cssText = `
+    padding: 2px 4px;
+    font-size: 12px;
+  `;
+  select.innerHTML = '<option value="">Move to...</option>';
+  transitions.forEach(status => {
+    const option = document.createElement("option");
+    option.value = status;
+    option.textContent = `${ACTIVITY_STATUSES[status].icon} ${ACTIVITY_STATUSES[status].label}`;
+    select.appendChild(option);
+  });
+  if (transitions.length > 0) {
+    row.appendChild(select);
+  }
+
+  const feedback = document.createElement("span");
+  feedback.style.cssText = `
+    color: #6c757d;
+    font-size: 11px;
+  `;
+  row.appendChild(feedback);
+  control.appendChild(row);
+
+  select.onchange = async () => {
+    const status = select.value as ActivityStatus;
+    if (!status) return;
+
+    select.disabled = true;
+    feedback.textContent = "⏳ Saving...";
+    try {
+      const result = await activityService.updateStatus(record, status);
+      applyActivityUpdate(result.record);
+      control.parentNode?.replaceChild(createStatusControl(result.record), control);
+      showBanner(
+        result.state === 'saved' ?
+          `Status changed to ${ACTIVITY_STATUSES[status].label}` :
+          "Activity store unreachable - status change queued and will sync when you reconnect",
+        result.state === 'saved'
+      );
+    } catch (error) {
+      console.error("❌ Status update failed:", error);
+      feedback.textContent = `❌ ${(error as Error).message}`;
+      select.value = "";
+      select.disabled = false;
+    }
+  };
+
+  const history = record.statusHistory || [];
+  if (history.length > 0) {
+    const historyList = document.createElement("ul");
+    historyList.style.cssText = `
+      margin: 4px 0 0 0;
+      padding-left: 18px;
+      color: #6c757d;
+      font-size: 11px;
+    `;
+    history.slice().reverse().forEach(transition => {
+      const from = isActivityStatus(transition.from) ? ACTIVITY_STATUSES[transition.from].label : transition.from;
+      const item = document.createElement("li");
+      item.textContent = `${from} → ${ACTIVITY_STATUSES[transition.to]?.label || transition.to} by ${transition.user}, ${new Date(transition.timestamp).toLocaleString()}`;
+      historyList.appendChild(item);
+    });
+    control.appendChild(historyList);
+  }
+
+  return control;
+}
+
+// Swap an updated activity into the loaded history and re-render it
+function applyActivityUpdate(updated: ActivityRecord) {
+  const replace = (records: ActivityRecord[]) =>
+    records.map(record => (record.activityId === updated.activityId ? updated : record));
+  historyRecords = {
+    sender: replace(historyRecords.sender),
+    conversation: replace(historyRecords.conversation)
+  };
+  updateHistoryStatusFilter();
+  renderActivityHistory();
+}
+
 function initializeApiUI() {
   // Initialize due date functionality
   initializeDueDateUI();
 
+  // Replay activities queued while offline
+  activityService.startOfflineSync((count) => {
+    showBanner(`${count} queued ${count === 1 ? 'activity' : 'activities'} synced to the activity store`, true);
+  });
+
   // Get Seller Metrics button
   const getSellerHistoryBtn = document.getElementById("get-seller-history-btn");
   if (getSellerHistoryBtn) {
-    getSellerHistoryBtn.onclick = handleGetSellerHistory;
+    getSellerHistoryBtn.onclick = () => handleGetSellerHistory();
+  }
+  const refreshResultsBtn = document.getElementById("refresh-results-btn");
+  if (refreshResultsBtn) {
+    refreshResultsBtn.onclick = () => handleGetSellerHistory(true);
+  }
+
+  // Merchant picker
+  const detectMerchantBtn = document.getElementById("detect-merchant-btn");
+  if (detectMerchantBtn) {
+    detectMerchantBtn.onclick = () => detectMerchant();
+  }
+  const merchantIdInput = document.getElementById("merchant-id") as HTMLInputElement;
+  if (merchantIdInput) {
+    merchantIdInput.oninput = () => updateMerchantStatus(getSelectedMerchant());
+  }
+  const recentMerchantsSelect = document.getElementById("recent-merchants") as HTMLSelectElement;
+  if (recentMerchantsSelect) {
+    recentMerchantsSelect.onchange = () => {
+      const recent = merchantResolver.getRecentMerchants()
+        .filter(merchant => merchant.merchantId === recentMerchantsSelect.value)[0];
+      if (recent) {
+        selectMerchant({ ...recent, source: 'manual' });
+      }
+      recentMerchantsSelect.value = "";
+    };
+  }
+  renderRecentMerchants();
+
+  // Known marketplaces for the marketplace input and the comparison picker
+  const marketplaceOptions = document.getElementById("marketplace-options");
+  const compareMarketplaces = document.getElementById("compare-marketplaces");
+  if (marketplaceOptions) marketplaceOptions.innerHTML = "";
+  if (compareMarketplaces) compareMarketplaces.innerHTML = "";
+  marketplaceRegistry.list().forEach(marketplace => {
+    const label = `${marketplace.flag} ${marketplace.displayName} (${marketplace.currency})`;
+    if (marketplaceOptions) {
+      const option = document.createElement("option");
+      option.value = marketplace.id;
+      option.label = label;
+      marketplaceOptions.appendChild(option);
+    }
+    if (compareMarketplaces) {
+      const option = document.createElement("option");
+      option.value = marketplace.id;
+      option.textContent = label;
+      compareMarketplaces.appendChild(option);
+    }
+  });
+  const compareMarketplacesBtn = document.getElementById("compare-marketplaces-btn");
+  if (compareMarketplacesBtn) {
+    compareMarketplacesBtn.onclick = handleCompareMarketplaces;
+  }
+
+  // Export actions
+  const exportCsvBtn = document.getElementById("export-csv-btn");
+  if (exportCsvBtn) {
+    exportCsvBtn.onclick = () => handleExport('csv');
+  }
+  const exportXlsxBtn = document.getElementById("export-xlsx-btn");
+  if (exportXlsxBtn) {
+    exportXlsxBtn.onclick = () => handleExport('xlsx');
+  }
+  const exportConversationBtn = document.getElementById("export-conversation-btn");
+  if (exportConversationBtn) {
+    exportConversationBtn.onclick = handleExportConversation;
+  }
+
+  // Opportunities view controls
+  ["opportunity-stage-filter", "opportunity-sort", "opportunity-open-only"].forEach(id => {
+    const control = document.getElementById(id);
+    if (control) {
+      control.onchange = renderOpportunities;
+    }
+  });
+
+  if (authService.isAuthenticated()) {
+    detectMerchant();
   }
 
   // Invoke Agent button
@@ -1062,6 +1717,29 @@ function initializeApiUI() {
     invokeAgentBtn.onclick = handleInvokeAgent;
   }
 
+  // Activity history
+  const loadHistoryBtn = document.getElementById("load-history-btn");
+  if (loadHistoryBtn) {
+    loadHistoryBtn.onclick = loadActivityHistory;
+  }
+  const historyStatusFilter = document.getElementById("history-status-filter");
+  if (historyStatusFilter) {
+    historyStatusFilter.onchange = renderActivityHistory;
+  }
+  setupTabGroup([
+    { tabId: 'history-sender-tab', contentId: 'history-sender-content' },
+    { tabId: 'history-conversation-tab', contentId: 'history-conversation-content' }
+  ]);
+
+  // New Conversation button
+  const newConversationBtn = document.getElementById("new-conversation-btn") as HTMLButtonElement;
+  if (newConversationBtn) {
+    newConversationBtn.onclick = handleNewConversation;
+  }
+
+  // Restore the agent thread for the open item
+  renderConversation(getCurrentItemKey());
+
   // Analyze Email button
   const analyzeEmailBtn = document.getElementById("analyze-email-btn") as HTMLButtonElement;
   if (analyzeEmailBtn) {
@@ -1133,6 +1811,9 @@ async function handleInvokeAgent() {
       showError("Please sign in first before invoking the agent.");
       return;
     }
+    if (!requireCapability('invokeAgent')) {
+      return;
+    }
 
     const agentInput = document.getElementById("agent-input") as HTMLTextAreaElement;
     const invokeAgentBtn = document.getElementById("invoke-agent-btn") as HTMLButtonElement;
@@ -1153,51 +1834,84 @@ async function handleInvokeAgent() {
     // Show enhanced loading state
     const buttonLabel = invokeAgentBtn.querySelector('.ms-Button-label');
     
-    if (buttonLabel) buttonLabel.textContent = '⏳ Invoking Bedrock Agent...';
+    if (buttonLabel) buttonLabel.textContent = '⏳ Invoking AI Agent...';
     invokeAgentBtn.disabled = true;
 
-    // Show simple loading in results area
+    // Show the transcript with the new message and a pending agent reply
     agentResults.style.display = "block";
-    agentResponse.innerHTML = `
-      <div style="display: flex; align-items: center; gap: 10px; padding: 20px;">
+    const itemKey = getCurrentItemKey();
+    renderConversation(itemKey);
+    agentResponse.appendChild(createTurnElement({ role: 'user', text: inputText, timestamp: new Date().toISOString() }));
+
+    const pendingTurn = createTurnElement({ role: 'agent', text: '', timestamp: new Date().toISOString() });
+    const pendingText = pendingTurn.querySelector('.conversation-turn-text') as HTMLElement;
+    pendingText.innerHTML = `
+      <div style="display: flex; align-items: center; gap: 10px;">
         <div class="loading-spinner" style="
-          width: 24px; 
-          height: 24px; 
-          border: 3px solid #e3e3e3; 
-          border-top: 3px solid #007acc; 
+          width: 16px; 
+          height: 16px; 
+          border: 2px solid #e3e3e3; 
+          border-top: 2px solid #007acc; 
           border-radius: 50%; 
           animation: spin 1s linear infinite;
         "></div>
         <span>🤖 Processing...</span>
       </div>
     `;
+    agentResponse.appendChild(pendingTurn);
+    agentInput.value = "";
 
     console.log("🤖 Invoking agent with input:", inputText);
-    showInfo("Invoking Bedrock Agent Core...");
+    showInfo("Invoking AI Agent...");
+
+    // Wire the cancel button to this request
+    const abortController = new AbortController();
+    const cancelAgentBtn = document.getElementById("cancel-agent-btn") as HTMLButtonElement;
+    if (cancelAgentBtn) {
+      cancelAgentBtn.style.display = "inline-block";
+      cancelAgentBtn.disabled = false;
+      cancelAgentBtn.onclick = () => {
+        cancelAgentBtn.disabled = true;
+        abortController.abort();
+      };
+    }
+
+    // Render partial text as it streams in
+    let streamedText = "";
+    const renderChunk = (delta: string, fullText: string) => {
+      streamedText = fullText;
+      pendingText.textContent = fullText;
+    };
 
     try {
-      // Call the agent invocation function
-      const response = await invokeAgent(inputText);
+      // Send the message in this item's conversation so the agent session carries over
+      const response = await conversationService.sendMessage(itemKey, inputText, renderChunk, abortController.signal);
       
       console.log("✅ Agent invocation successful:", response);
-      showSuccess("Bedrock Agent Core invocation completed successfully!");
+      showSuccess(`${getBackendDisplayName(response.backendId)} invocation completed successfully!`);
       
-      // Display results
-      agentResponse.innerHTML = `
-        <div style="white-space: pre-wrap; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.5; padding: 15px; background: #f8fff9; border: 1px solid #28a745; border-radius: 6px; margin-top: 10px;">
-          ${response.replace(/\n/g, '<br>')}
-        </div>
-      `;
+      // Re-render the stored transcript including the new reply
+      renderConversation(itemKey);
 
     } catch (error) {
+      if (isCancelledError(error)) {
+        console.log("🛑 Agent invocation cancelled by user");
+        showInfo("Agent request cancelled.");
+        pendingText.textContent = streamedText ? `${streamedText}\n\n(cancelled)` : "Request cancelled.";
+        return;
+      }
+
       console.error("❌ Agent invocation failed:", error);
       const errorMessage = (error as Error).message;
       
-      showError(`Bedrock Agent Core invocation failed: ${errorMessage}`);
+      showError(`AI Agent invocation failed: ${errorMessage}`);
+      if (isSessionError(error)) {
+        showReAuthenticationPrompt();
+      }
       
-      // Show error in results area
-      agentResponse.innerHTML = `
-        <div style="padding: 15px; background: #fff5f5; border: 1px solid #f56565; border-radius: 6px; margin-top: 10px; color: #c53030;">
+      // Show error in place of the pending reply
+      pendingText.innerHTML = `
+        <div style="color: #c53030;">
           <strong>❌ Error:</strong> ${errorMessage}
         </div>
       `;
@@ -1213,53 +1927,553 @@ async function handleInvokeAgent() {
     
     if (buttonLabel) buttonLabel.textContent = '🤖 Invoke AI Agent';
     if (invokeAgentBtn) invokeAgentBtn.disabled = false;
+
+    const cancelAgentBtn = document.getElementById("cancel-agent-btn");
+    if (cancelAgentBtn) cancelAgentBtn.style.display = "none";
   }
 }
 
-async function invokeAgent(inputText: string): Promise<string> {
+// Invoke the agent backend chain, failing over to the next backend on timeouts and 5xx errors.
+// Pass onChunk to stream partial text as it arrives.
+async function invokeAgent(inputText: string, onChunk?: AgentStreamHandler, signal?: AbortSignal): Promise<AgentResponse> {
   try {
-    console.log("🔧 Calling Bedrock Agent Core...");
+    const response = await agentBackendRegistry.invokeWithFailover(inputText, { enableTrace: true, signal }, onChunk);
+    console.log(`✅ ${getBackendDisplayName(response.backendId)} response received:`, response);
     
-    const response = await bedrockAgentCoreClient.invoke(inputText);
-    console.log("✅ Bedrock Agent Core response received:", response);
-    
-    return response.response || "Agent response received but no content.";
+    return response;
 
   } catch (error) {
-    console.error("❌ Error calling Bedrock Agent Core:", error);
-    throw new Error(`Bedrock Agent Core call failed: ${(error as Error).message}`);
+    if (isCancelledError(error)) {
+      throw error;
+    }
+    console.error("❌ Error calling agent backends:", error);
+    throw new Error(`Agent call failed: ${(error as Error).message}`);
   }
 }
 
-async function handleGetSellerHistory() {
-  try {
-    if (!authService.isAuthenticated()) {
-      showError("Please sign in first before calling the API.");
-      return;
-    }
+// Conversation thread key for the open mailbox item (falls back to a single standalone thread)
+function getCurrentItemKey(): string {
+  const item = typeof Office !== 'undefined' ? Office.context?.mailbox?.item : null;
+  return item?.itemId || item?.conversationId || 'standalone';
+}
 
-    const marketplaceIdInput = document.getElementById("marketplace-id") as HTMLInputElement;
+// Render the stored transcript for a mailbox item into the agent panel
+function renderConversation(itemKey: string) {
+  const agentResults = document.getElementById("agent-results");
+  const agentResponse = document.getElementById("agent-response");
+  if (!agentResults || !agentResponse) return;
 
-    const params = {
+  const conversation = conversationService.getConversation(itemKey);
+  agentResponse.innerHTML = "";
+  conversation.turns.forEach(turn => agentResponse.appendChild(createTurnElement(turn)));
+  agentResults.style.display = conversation.turns.length > 0 ? "block" : "none";
+}
+
+function createTurnElement(turn: ConversationTurn): HTMLElement {
+  const isUser = turn.role === 'user';
+  const turnElement = document.createElement("div");
+  turnElement.className = `conversation-turn conversation-turn-${turn.role}`;
+  turnElement.style.cssText = `
+    margin: 0 0 10px 0;
+    padding: 10px 12px;
+    border-radius: 6px;
+    line-height: 1.5;
+    ${isUser ?
+      'background: #f0f9ff; border: 1px solid #93c5fd; margin-left: 40px;' :
+      'background: #f8fff9; border: 1px solid #28a745; margin-right: 40px;'}
+  `;
+
+  const roleLabel = document.createElement("div");
+  roleLabel.textContent = isUser ? "👤 You" : "🤖 Agent";
+  roleLabel.style.cssText = `
+    font-size: 11px;
+    font-weight: 600;
+    color: #6c757d;
+    margin-bottom: 4px;
+  `;
+  turnElement.appendChild(roleLabel);
+
+  const text = document.createElement("div");
+  text.className = "conversation-turn-text";
+  text.style.cssText = `
+    white-space: pre-wrap;
+    font-size: 14px;
+    color: #333;
+  `;
+  if (turn.citations && turn.citations.length > 0) {
+    text.appendChild(renderCitedText(turn.text, turn.citations));
+  } else {
+    text.textContent = turn.text;
+  }
+  turnElement.appendChild(text);
+
+  if (turn.citations && turn.citations.length > 0) {
+    turnElement.appendChild(renderCitationReferences(turn.citations));
+  }
+
+  const traceInspector = renderTraceInspector(turn.trace);
+  if (traceInspector) {
+    turnElement.appendChild(traceInspector);
+  }
+
+  if (turn.backendId) {
+    const source = document.createElement("div");
+    source.textContent = `Answered by ${getBackendDisplayName(turn.backendId)}`;
+    source.style.cssText = `
+      margin-top: 6px;
+      color: #6c757d;
+      font-size: 11px;
+    `;
+    turnElement.appendChild(source);
+  }
+
+  return turnElement;
+}
+
+// Render response text with cited spans highlighted and numbered [n] markers.
+// Bedrock citation spans are inclusive of the end index.
+function renderCitedText(text: string, citations: AgentCitation[]): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  const spans = citations
+    .map((citation, index) => {
+      const span = citation.generatedResponsePart?.textResponsePart?.span;
+      return span ? { start: span.start, end: span.end + 1, number: index + 1 } : null;
+    })
+    .filter(span => span && span.start >= 0 && span.end <= text.length && span.start < span.end)
+    .sort((a, b) => a.start - b.start);
+
+  let position = 0;
+  spans.forEach(span => {
+    // Skip spans overlapping one already rendered
+    if (span.start < position) return;
+
+    fragment.appendChild(document.createTextNode(text.substring(position, span.start)));
+
+    const mark = document.createElement("mark");
+    mark.textContent = text.substring(span.start, span.end);
+    mark.style.cssText = `
+      background: #fff3cd;
+      padding: 0 2px;
+      border-radius: 2px;
+    `;
+    fragment.appendChild(mark);
+
+    const marker = document.createElement("sup");
+    marker.textContent = `[${span.number}]`;
+    marker.title = `Source ${span.number}`;
+    marker.style.cssText = `
+      color: #0078d4;
+      font-size: 10px;
+      font-weight: 600;
+      margin-left: 1px;
+    `;
+    fragment.appendChild(marker);
+
+    position = span.end;
+  });
+  fragment.appendChild(document.createTextNode(text.substring(position)));
+
+  return fragment;
+}
+
+// List the retrieved references for each citation with S3 URI, metadata and expandable source text
+function renderCitationReferences(citations: AgentCitation[]): HTMLElement {
+  const referencesContainer = document.createElement("div");
+  referencesContainer.className = "citation-references";
+  referencesContainer.style.cssText = `
+    margin-top: 10px;
+    padding-top: 8px;
+    border-top: 1px solid #e9ecef;
+    font-size: 12px;
+    color: #495057;
+  `;
+
+  const title = document.createElement("div");
+  title.textContent = "📚 Sources";
+  title.style.cssText = `
+    font-weight: 600;
+    margin-bottom: 6px;
+  `;
+  referencesContainer.appendChild(title);
+
+  citations.forEach((citation, index) => {
+    (citation.retrievedReferences || []).forEach(reference => {
+      const referenceElement = document.createElement("div");
+      referenceElement.style.cssText = `
+        margin-bottom: 8px;
+        padding: 6px 8px;
+        background: #f8f9fa;
+        border: 1px solid #e9ecef;
+        border-radius: 4px;
+      `;
+
+      const location = document.createElement("div");
+      location.textContent = `[${index + 1}] ${reference.location?.s3Location?.uri || reference.location?.type || 'Unknown source'}`;
+      location.style.cssText = `
+        font-family: 'Courier New', monospace;
+        word-break: break-all;
+      `;
+      referenceElement.appendChild(location);
+
+      const metadata = reference.metadata || {};
+      Object.keys(metadata).forEach(key => {
+        const metadataRow = document.createElement("div");
+        const value = metadata[key];
+        metadataRow.textContent = `${formatFieldName(key)}: ${typeof value === 'object' ? JSON.stringify(value) : value}`;
+        metadataRow.style.cssText = `
+          color: #6c757d;
+          font-size: 11px;
+        `;
+        referenceElement.appendChild(metadataRow);
+      });
+
+      const sourceText = reference.content?.text;
+      if (sourceText) {
+        const sourceBody = document.createElement("div");
+        sourceBody.textContent = sourceText;
+        sourceBody.style.cssText = `
+          display: none;
+          margin-top: 6px;
+          padding: 6px;
+          background: white;
+          border-left: 3px solid #0078d4;
+          white-space: pre-wrap;
+          max-height: 200px;
+          overflow-y: auto;
+        `;
+
+        const toggle = document.createElement("button");
+        toggle.type = "button";
+        toggle.textContent = "▸ Show source text";
+        toggle.style.cssText = `
+          background: none;
+          color: #0078d4;
+          padding: 0;
+          margin-top: 4px;
+          font-size: 11px;
+        `;
+        toggle.onclick = () => {
+          const isHidden = sourceBody.style.display === "none";
+          sourceBody.style.display = isHidden ? "block" : "none";
+          toggle.textContent = isHidden ? "▾ Hide source text" : "▸ Show source text";
+        };
+
+        referenceElement.appendChild(toggle);
+        referenceElement.appendChild(sourceBody);
+      }
+
+      referencesContainer.appendChild(referenceElement);
+    });
+  });
+
+  return referencesContainer;
+}
+
+// Collapsible "How the agent got here" panel built from the agent trace
+function renderTraceInspector(trace: any): HTMLElement | null {
+  const steps = getTraceSteps(trace);
+  if (steps.length === 0) return null;
+
+  const inspector = document.createElement("div");
+  inspector.className = "trace-inspector";
+  inspector.style.cssText = `
+    margin-top: 10px;
+    border: 1px solid #e9ecef;
+    border-radius: 4px;
+    font-size: 12px;
+    color: #495057;
+  `;
+
+  const toggle = document.createElement("button");
+  toggle.type = "button";
+  toggle.textContent = `▸ 🔍 How the agent got here (${steps.length} steps)`;
+  toggle.style.cssText = `
+    width: 100%;
+    text-align: left;
+    background: #f8f9fa;
+    color: #495057;
+    padding: 6px 8px;
+    font-size: 12px;
+    font-weight: 600;
+  `;
+  inspector.appendChild(toggle);
+
+  const body = document.createElement("div");
+  body.style.cssText = `
+    display: none;
+    padding: 8px;
+  `;
+  inspector.appendChild(body);
+
+  toggle.onclick = () => {
+    const isHidden = body.style.display === "none";
+    body.style.display = isHidden ? "block" : "none";
+    toggle.textContent = `${isHidden ? '▾' : '▸'} 🔍 How the agent got here (${steps.length} steps)`;
+  };
+
+  steps.forEach((step, index) => {
+    const stepElement = document.createElement("div");
+    stepElement.style.cssText = `
+      margin-bottom: 8px;
+      padding: 6px 8px;
+      border-left: 3px solid ${step.failureTrace ? '#dc3545' : '#0078d4'};
+      background: ${step.failureTrace ? '#fff5f5' : '#f8f9fa'};
+    `;
+
+    const heading = document.createElement("div");
+    heading.textContent = `Step ${index + 1}`;
+    heading.style.cssText = `
+      font-weight: 600;
+      margin-bottom: 4px;
+    `;
+    stepElement.appendChild(heading);
+
+    if (step.failureTrace) {
+      appendTraceRow(stepElement, "❌ Failure", step.failureTrace.failureReason);
+      appendTraceIdRow(stepElement, step.failureTrace.traceId);
+    }
+
+    const orchestration = step.orchestrationTrace;
+    if (orchestration) {
+      if (orchestration.rationale?.text) {
+        appendTraceRow(stepElement, "💭 Rationale", orchestration.rationale.text);
+      }
+      if (orchestration.invocationInput) {
+        appendTraceRow(stepElement, "🔧 Tool", describeTraceInvocation(orchestration.invocationInput));
+      }
+      if (orchestration.observation) {
+        appendTraceRow(stepElement, "👁️ Observation", describeTraceObservation(orchestration.observation));
+      }
+      const traceId = orchestration.invocationInput?.traceId ||
+        orchestration.observation?.traceId ||
+        orchestration.rationale?.traceId;
+      if (traceId) {
+        appendTraceIdRow(stepElement, traceId);
+      }
+    }
+
+    body.appendChild(stepElement);
+  });
+
+  return inspector;
+}
+
+function appendTraceRow(container: HTMLElement, label: string, value: string) {
+  const row = document.createElement("div");
+  row.style.cssText = `
+    margin: 2px 0;
+    white-space: pre-wrap;
+    word-break: break-word;
+  `;
+  const labelElement = document.createElement("strong");
+  labelElement.textContent = `${label}: `;
+  row.appendChild(labelElement);
+  row.appendChild(document.createTextNode(value || ''));
+  container.appendChild(row);
+}
+
+// Trace IDs are shown selectable with a copy button so they can be pasted into support tickets
+function appendTraceIdRow(container: HTMLElement, traceId: string) {
+  if (!traceId) return;
+
+  const row = document.createElement("div");
+  row.style.cssText = `
+    margin-top: 4px;
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  `;
+
+  const traceIdElement = document.createElement("code");
+  traceIdElement.textContent = traceId;
+  traceIdElement.style.cssText = `
+    font-size: 11px;
+    background: white;
+    padding: 1px 4px;
+    border: 1px solid #dee2e6;
+    border-radius: 3px;
+    user-select: all;
+    word-break: break-all;
+  `;
+
+  const copyBtn = document.createElement("button");
+  copyBtn.type = "button";
+  copyBtn.textContent = "📋 Copy";
+  copyBtn.style.cssText = `
+    background: none;
+    color: #0078d4;
+    padding: 0;
+    font-size: 11px;
+  `;
+  copyBtn.onclick = () => {
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(traceId).then(
+        () => showSuccess("Trace ID copied to clipboard"),
+        () => showInfo("Select the trace ID and copy it manually.")
+      );
+    } else {
+      showInfo("Select the trace ID and copy it manually.");
+    }
+  };
+
+  const label = document.createElement("strong");
+  label.textContent = "Trace ID:";
+  row.appendChild(label);
+  row.appendChild(traceIdElement);
+  row.appendChild(copyBtn);
+  container.appendChild(row);
+}
+
+// Name the tool or knowledge base an orchestration step invoked (e.g. the MCP seller lookup)
+function describeTraceInvocation(invocationInput: any): string {
+  const actionGroup = invocationInput.actionGroupInvocationInput;
+  if (actionGroup) {
+    const operation = actionGroup.function || actionGroup.apiPath || actionGroup.verb || '';
+    const parameters = (actionGroup.parameters || [])
+      .map((parameter: any) => `${parameter.name}=${parameter.value}`)
+      .join(', ');
+    return `${actionGroup.actionGroupName || 'Action group'}${operation ? ` → ${operation}` : ''}${parameters ? ` (${parameters})` : ''}`;
+  }
+
+  const knowledgeBase = invocationInput.knowledgeBaseLookupInput;
+  if (knowledgeBase) {
+    return `Knowledge base ${knowledgeBase.knowledgeBaseId || ''}: ${knowledgeBase.text || ''}`;
+  }
+
+  // MCP tool calls from the AgentCore runtime
+  const toolName = invocationInput.toolName || invocationInput.name || invocationInput.invocationType;
+  if (toolName) {
+    const toolInput = invocationInput.input || invocationInput.arguments;
+    return toolInput ? `${toolName} ${JSON.stringify(toolInput)}` : toolName;
+  }
+
+  return JSON.stringify(invocationInput);
+}
+
+function describeTraceObservation(observation: any): string {
+  return observation.actionGroupInvocationOutput?.text ||
+    observation.finalResponse?.text ||
+    (observation.knowledgeBaseLookupOutput ?
+      `${(observation.knowledgeBaseLookupOutput.retrievedReferences || []).length} references retrieved` :
+      '') ||
+    observation.output ||
+    observation.type ||
+    JSON.stringify(observation);
+}
+
+// End the agent session and start a fresh thread for the current item
+async function handleNewConversation() {
+  const newConversationBtn = document.getElementById("new-conversation-btn") as HTMLButtonElement;
+  try {
+    if (newConversationBtn) newConversationBtn.disabled = true;
+    const itemKey = getCurrentItemKey();
+    await conversationService.endConversation(itemKey);
+    renderConversation(itemKey);
+    showInfo("Started a new conversation.");
+  } catch (error) {
+    console.error("❌ Failed to start new conversation:", error);
+    showError(`Failed to start new conversation: ${(error as Error).message}`);
+  } finally {
+    if (newConversationBtn) newConversationBtn.disabled = false;
+  }
+}
+
+function isCancelledError(error: any): boolean {
+  return error instanceof AgentBackendError && error.code === 'CANCELLED';
+}
+
+// Signed-out, expired or rejected credentials - the user needs to sign in again
+function isSessionError(error: any): boolean {
+  if (error instanceof ApiError) {
+    return error.code === 'SESSION_EXPIRED' || error.code === 'FORBIDDEN';
+  }
+  const message = (error as Error).message || '';
+  return message.includes('session has expired') || message.includes('Authentication failed');
+}
+
+// Error message with the backend request ID, so failures can be traced in the API logs
+function describeApiError(error: any): string {
+  const message = (error as Error).message;
+  return error instanceof ApiError && error.requestId ? `${message} (Request ID: ${error.requestId})` : message;
+}
+
+// Small cancel button shown while an agent request is in flight
+function createAgentCancelButton(onCancel: () => void): HTMLButtonElement {
+  const cancelBtn = document.createElement("button");
+  cancelBtn.type = "button";
+  cancelBtn.textContent = "⏹️ Cancel";
+  cancelBtn.style.cssText = `
+    background: #6c757d;
+    color: white;
+    border: none;
+    padding: 6px 12px;
+    border-radius: 4px;
+    font-size: 12px;
+    cursor: pointer;
+    margin-top: 8px;
+  `;
+  cancelBtn.onclick = () => {
+    cancelBtn.disabled = true;
+    cancelBtn.textContent = "⏳ Cancelling...";
+    onCancel();
+  };
+  return cancelBtn;
+}
+
+function getBackendDisplayName(backendId: string): string {
+  const backend = agentBackendRegistry.get(backendId);
+  return backend ? backend.displayName : backendId;
+}
+
+async function handleGetSellerHistory(forceRefresh = false) {
+  try {
+    if (!authService.isAuthenticated()) {
+      showError("Please sign in first before calling the API.");
+      return;
+    }
+    if (!requireCapability('viewSellerMetrics')) {
+      return;
+    }
+
+    const merchant = await getMerchantForRequest();
+    if (!merchant) {
+      return;
+    }
+
+    const marketplaceIdInput = document.getElementById("marketplace-id") as HTMLInputElement;
+
+    const params = {
       ...(marketplaceIdInput?.value && { marketplaceId: marketplaceIdInput.value })
     };
 
     console.log("📞 Calling seller metrics API...");
     showApiLoading(true);
 
-    const result = await sellerHistoryService.getSellerHistory(params);
+    const result = await sellerHistoryService.getSellerHistory(merchant.merchantId, params, {
+      forceRefresh,
+      onRevalidated: (fresh) => {
+        // Only swap in the refreshed data if the user is still looking at the same seller
+        if (lastSellerHistory === result) {
+          console.log("🔄 Seller history refreshed in the background");
+          lastSellerHistory = fresh;
+          displayApiResults(fresh, merchant);
+        }
+      }
+    });
     
     console.log("✅ API call successful:", result);
-    showSuccess("Seller metrics retrieved successfully!");
-    displayApiResults(result);
+    lastSellerHistory = result;
+    merchantResolver.addRecentMerchant(merchant);
+    renderRecentMerchants();
+    showSuccess(result.fromCache ? "Seller metrics loaded from cache" : "Seller metrics retrieved successfully!");
+    displayApiResults(result, merchant);
 
   } catch (error) {
     console.error("❌ API call failed:", error);
-    const errorMessage = (error as Error).message;
+    const errorMessage = describeApiError(error);
     
     // Provide specific guidance for authentication errors
-    if (errorMessage.includes('session has expired') || 
-        errorMessage.includes('Authentication failed')) {
+    if (isSessionError(error)) {
       showError(`${errorMessage} Please click "Sign In" to continue.`);
       updateAuthUI(); // Refresh the UI to show sign-in options
     } else {
@@ -1272,17 +2486,308 @@ async function handleGetSellerHistory() {
   }
 }
 
-function displayApiResults(data: any) {
+const MERCHANT_SOURCE_LABELS: Record<MerchantSource, string> = {
+  sender: 'matched from sender',
+  subject: 'found in subject',
+  body: 'found in email body',
+  manual: 'entered manually'
+};
+
+// Merchant detected for the open email - kept so the results can show where it came from
+let resolvedMerchant: ResolvedMerchant | null = null;
+
+function getEmailBodyText(): Promise<string> {
+  return new Promise(resolve => {
+    const item = typeof Office !== 'undefined' ? Office.context?.mailbox?.item : null;
+    if (!item?.body) {
+      resolve("");
+      return;
+    }
+    item.body.getAsync("text", (result) => {
+      resolve(result.status === Office.AsyncResultStatus.Succeeded ? result.value : "");
+    });
+  });
+}
+
+// Resolve the merchant from the open email and fill in the picker
+async function detectMerchant(): Promise<ResolvedMerchant | null> {
+  const item = typeof Office !== 'undefined' ? Office.context?.mailbox?.item : null;
+  if (!item) {
+    updateMerchantStatus(getSelectedMerchant());
+    return null;
+  }
+
+  const merchantStatus = document.getElementById("merchant-status");
+  if (merchantStatus) merchantStatus.textContent = "⏳ Detecting merchant...";
+
+  const merchant = await merchantResolver.resolve({
+    senderEmail: item.from?.emailAddress,
+    subject: item.subject,
+    body: await getEmailBodyText()
+  });
+
+  if (merchant) {
+    selectMerchant(merchant);
+  } else {
+    if (merchantStatus) merchantStatus.textContent = "No merchant found for this email - enter one or pick a recent merchant.";
+  }
+  return merchant;
+}
+
+function selectMerchant(merchant: ResolvedMerchant) {
+  resolvedMerchant = merchant;
+  const merchantIdInput = document.getElementById("merchant-id") as HTMLInputElement;
+  if (merchantIdInput) merchantIdInput.value = merchant.merchantId;
+  updateMerchantStatus(merchant);
+}
+
+// The picker value wins; it keeps the detected source only while it still matches
+function getSelectedMerchant(): ResolvedMerchant | null {
+  const merchantIdInput = document.getElementById("merchant-id") as HTMLInputElement;
+  const merchantId = merchantIdInput?.value.trim();
+  if (!merchantId) {
+    return null;
+  }
+  if (resolvedMerchant && resolvedMerchant.merchantId === merchantId) {
+    return resolvedMerchant;
+  }
+  return { merchantId, source: 'manual' };
+}
+
+function describeMerchant(merchant: ResolvedMerchant): string {
+  const name = merchant.merchantName ? `${merchant.merchantName} (${merchant.merchantId})` : merchant.merchantId;
+  return `${name} · ${MERCHANT_SOURCE_LABELS[merchant.source]}`;
+}
+
+function updateMerchantStatus(merchant: ResolvedMerchant | null) {
+  const merchantStatus = document.getElementById("merchant-status");
+  if (merchantStatus) {
+    merchantStatus.textContent = merchant ? `🏪 ${describeMerchant(merchant)}` : "";
+  }
+}
+
+function renderRecentMerchants() {
+  const recentMerchantsSelect = document.getElementById("recent-merchants") as HTMLSelectElement;
+  if (!recentMerchantsSelect) return;
+
+  const recent = merchantResolver.getRecentMerchants();
+  recentMerchantsSelect.innerHTML = '<option value="">Recent merchants...</option>';
+  recent.forEach(merchant => {
+    const option = document.createElement("option");
+    option.value = merchant.merchantId;
+    option.textContent = merchant.merchantName ? `${merchant.merchantName} (${merchant.merchantId})` : merchant.merchantId;
+    recentMerchantsSelect.appendChild(option);
+  });
+  recentMerchantsSelect.style.display = recent.length > 0 ? "block" : "none";
+}
+
+// Merchant for a seller metrics call: the picker value, else whatever the open email resolves to
+async function getMerchantForRequest(): Promise<ResolvedMerchant | null> {
+  let merchant = getSelectedMerchant();
+  if (!merchant) {
+    merchant = await detectMerchant();
+  }
+  if (!merchant) {
+    showError("No merchant found for this email. Enter a merchant ID or pick a recent merchant.");
+  }
+  return merchant;
+}
+
+// Metrics shown side by side in the marketplace comparison, by MetricItem label
+const COMPARISON_METRICS = ['Total Revenue', 'Units Sold', 'Buy Box Win Rate', 'IPI Score', 'Buyable Asins'];
+
+async function handleCompareMarketplaces() {
+  const compareBtn = document.getElementById("compare-marketplaces-btn") as HTMLButtonElement;
+  const compareLabel = compareBtn?.querySelector('.ms-Button-label');
+
+  try {
+    if (!authService.isAuthenticated()) {
+      showError("Please sign in first before calling the API.");
+      return;
+    }
+    if (!requireCapability('viewSellerMetrics')) {
+      return;
+    }
+
+    const compareSelect = document.getElementById("compare-marketplaces") as HTMLSelectElement;
+    const marketplaceIds: string[] = [];
+    for (let i = 0; compareSelect && i < compareSelect.options.length; i++) {
+      if (compareSelect.options[i].selected) {
+        marketplaceIds.push(compareSelect.options[i].value);
+      }
+    }
+    if (marketplaceIds.length < 2) {
+      showError("Pick at least two marketplaces to compare.");
+      return;
+    }
+
+    const merchant = await getMerchantForRequest();
+    if (!merchant) {
+      return;
+    }
+
+    if (compareBtn) compareBtn.disabled = true;
+    if (compareLabel) compareLabel.textContent = "⏳ Comparing...";
+
+    const results = await sellerHistoryService.getSellerHistoryForMarketplaces(merchant.merchantId, marketplaceIds);
+    const failed = results.filter(result => !result.history);
+    if (failed.length === results.length) {
+      throw new Error(failed[0].error || "No marketplace returned data");
+    }
+
+    merchantResolver.addRecentMerchant(merchant);
+    renderRecentMerchants();
+    renderMarketplaceComparison(results);
+
+    const resultsDiv = document.getElementById("api-results");
+    const outputPre = document.getElementById("api-output");
+    const resultsMerchant = document.getElementById("results-merchant");
+    if (outputPre) {
+      outputPre.textContent = JSON.stringify(results.map(result => ({
+        marketplaceId: result.marketplaceId,
+        error: result.error,
+        response: result.history ? result.history.raw : null
+      })), null, 2);
+    }
+    if (resultsMerchant) resultsMerchant.textContent = `🏪 ${describeMerchant(merchant)}`;
+    updateResultsAge(null);
+    if (resultsDiv) resultsDiv.style.display = "block";
+    setupTabNavigation();
+    document.getElementById("comparison-tab")?.click();
+
+    if (failed.length > 0) {
+      showError(`Could not load ${failed.map(result => marketplaceRegistry.describe(result.marketplaceId)).join(', ')}`);
+    } else {
+      showSuccess("Marketplace comparison ready!");
+    }
+  } catch (error) {
+    console.error("❌ Marketplace comparison failed:", error);
+    showError(`Marketplace comparison failed: ${(error as Error).message}`);
+  } finally {
+    if (compareBtn) compareBtn.disabled = false;
+    if (compareLabel) compareLabel.textContent = "🌍 Compare Marketplaces";
+  }
+}
+
+// Table of key metrics with one column per marketplace, built from the same MetricItems as the metric cards
+function renderMarketplaceComparison(results: MarketplaceHistoryResult[]) {
+  const container = document.getElementById("comparison-table");
+  if (!container) return;
+
+  const columns = results.map(result => {
+    const metrics: { [label: string]: MetricItem } = {};
+    if (result.history) {
+      extractSellerMetrics(result.history).forEach(metric => {
+        metrics[metric.label] = metric;
+      });
+    }
+    return { result, metrics };
+  });
+
+  const table = document.createElement("table");
+  table.style.cssText = `
+    width: 100%;
+    border-collapse: collapse;
+    font-size: 11px;
+  `;
+  const cellStyle = `
+    padding: 4px 6px;
+    border-bottom: 1px solid #e9ecef;
+    text-align: right;
+    vertical-align: top;
+    white-space: nowrap;
+  `;
+
+  const headerRow = document.createElement("tr");
+  const corner = document.createElement("th");
+  corner.style.cssText = cellStyle;
+  headerRow.appendChild(corner);
+  columns.forEach(column => {
+    const th = document.createElement("th");
+    th.textContent = marketplaceRegistry.describe(column.result.marketplaceId);
+    th.style.cssText = cellStyle + "color: #0078d4;";
+    headerRow.appendChild(th);
+  });
+  table.appendChild(headerRow);
+
+  COMPARISON_METRICS.forEach(label => {
+    const row = document.createElement("tr");
+    const name = document.createElement("td");
+    name.textContent = label;
+    name.style.cssText = cellStyle + "text-align: left; font-weight: 600; color: #495057;";
+    row.appendChild(name);
+
+    columns.forEach(column => {
+      const cell = document.createElement("td");
+      cell.style.cssText = cellStyle;
+      const metric = column.metrics[label];
+      if (!column.result.history) {
+        cell.textContent = "⚠️";
+        cell.title = column.result.error || "";
+      } else if (!metric) {
+        cell.textContent = "—";
+      } else {
+        cell.textContent = metric.value;
+        if (metric.trend) {
+          const delta = document.createElement("div");
+          delta.textContent = metric.trend.text;
+          delta.style.color = metric.trend.direction === 'up' ? '#28a745' : metric.trend.direction === 'down' ? '#dc3545' : '#6c757d';
+          cell.appendChild(delta);
+        }
+      }
+      row.appendChild(cell);
+    });
+    table.appendChild(row);
+  });
+
+  container.innerHTML = "";
+  container.appendChild(table);
+}
+
+// Show how old the displayed data is; ticks while the results stay on screen
+let resultsAgeTimer: ReturnType<typeof setInterval> | null = null;
+
+function updateResultsAge(history: SellerHistory | null) {
+  const resultsAge = document.getElementById("results-age");
+  if (resultsAgeTimer) {
+    clearInterval(resultsAgeTimer);
+    resultsAgeTimer = null;
+  }
+  if (!resultsAge) return;
+  if (!history) {
+    resultsAge.textContent = "";
+    return;
+  }
+
+  const render = () => {
+    const minutes = Math.floor((Date.now() - new Date(history.fetchedAt).getTime()) / 60000);
+    const age = minutes < 1 ? "just now" : minutes < 60 ? `${minutes} min ago` : `${Math.floor(minutes / 60)} h ago`;
+    resultsAge.textContent = `${history.fromCache ? "📦 Cached" : "🕐 Updated"} ${age}`;
+  };
+  render();
+  resultsAgeTimer = setInterval(render, 60000);
+}
+
+function displayApiResults(history: SellerHistory, merchant?: ResolvedMerchant) {
   const resultsDiv = document.getElementById("api-results");
   const outputPre = document.getElementById("api-output");
   const metricsDiv = document.getElementById("results-metrics-display");
+  const resultsMerchant = document.getElementById("results-merchant");
+
+  if (resultsMerchant) {
+    resultsMerchant.textContent = merchant ? `🏪 ${describeMerchant(merchant)}` : "";
+  }
+  updateResultsAge(history);
   
   if (resultsDiv && outputPre && metricsDiv) {
     // Store raw JSON
-    outputPre.textContent = JSON.stringify(data, null, 2);
+    outputPre.textContent = JSON.stringify(history.raw, null, 2);
     
     // Generate metrics display
-    generateKeyMetrics(data, metricsDiv);
+    generateKeyMetrics(history, metricsDiv);
+    renderSchemaWarnings(history.warnings, metricsDiv);
+    updateOpportunityStageFilter(history.opportunities);
+    renderOpportunities();
     
     // Show results
     resultsDiv.style.display = "block";
@@ -1292,8 +2797,8 @@ function displayApiResults(data: any) {
   }
 }
 
-function generateKeyMetrics(data: any, metricsDiv: HTMLElement) {
-  const metrics = extractSellerMetrics(data);
+function generateKeyMetrics(history: SellerHistory, metricsDiv: HTMLElement) {
+  const metrics = extractSellerMetrics(history);
   
   var html = '';
   html += '<div style="';
@@ -1355,6 +2860,9 @@ function generateKeyMetrics(data: any, metricsDiv: HTMLElement) {
       }
       singleLineContent += ' ' + trendArrow + metric.trend.text;
     }
+    if (metric.sparkline) {
+      singleLineContent += ' ' + renderSparkline(metric.sparkline);
+    }
     
     html += '<div style="' + cardStyle + '" ' + hoverEvents + '>';
     html += '<div style="';
@@ -1369,133 +2877,158 @@ function generateKeyMetrics(data: any, metricsDiv: HTMLElement) {
   }
   
   html += '</div>';
+  html += renderTrendCharts(history);
   metricsDiv.innerHTML = html;
 }
 
-function extractSellerMetrics(data: any): MetricItem[] {
+// Line charts from the locally kept daily snapshots for this merchant and marketplace
+function renderTrendCharts(history: SellerHistory): string {
+  const marketplace = getHistoryMarketplace(history);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(marketplace.locale, { month: 'short', day: 'numeric' });
+  const charts = [
+    renderLineChart(
+      'Revenue',
+      metricSnapshotStore.getSeries(history.merchantId, history.marketplaceId, 'totalGms'),
+      value => marketplaceRegistry.formatCurrency(value, marketplace),
+      formatDate
+    ),
+    renderLineChart(
+      'Units Sold',
+      metricSnapshotStore.getSeries(history.merchantId, history.marketplaceId, 'totalOrderedUnits'),
+      value => marketplaceRegistry.formatNumber(value, marketplace),
+      formatDate
+    ),
+    renderLineChart(
+      'Buy Box Win Rate',
+      metricSnapshotStore.getSeries(history.merchantId, history.marketplaceId, 'buyBoxWinRate'),
+      value => marketplaceRegistry.formatPercent(value, marketplace),
+      formatDate
+    )
+  ].filter(chart => !!chart);
+
+  var html = '<div style="padding: 8px;">';
+  html += '<div style="font-size: 12px; font-weight: 600; color: #0078d4; margin-bottom: 6px;">📈 Trends</div>';
+  if (charts.length === 0) {
+    var snapshotCount = metricSnapshotStore.getSnapshots(history.merchantId, history.marketplaceId).length;
+    html += '<div style="font-size: 11px; color: #6c757d;">';
+    html += 'Trends build up as this seller is checked on different days (' + snapshotCount + ' daily snapshot' + (snapshotCount === 1 ? '' : 's') + ' so far).';
+    html += '</div>';
+  } else {
+    html += charts.join('');
+  }
+  html += '</div>';
+  return html;
+}
+
+function extractSellerMetrics(history: SellerHistory): MetricItem[] {
   const metrics: MetricItem[] = [];
   
   // Focus on the most important business metrics from seller_info
-  const sellerInfo = data.seller_info || {};
+  const sellerInfo = history.sellerInfo;
+  const marketplace = getHistoryMarketplace(history);
+  const series = (metric: SnapshotMetric) => metricSnapshotStore.getSeries(history.merchantId, history.marketplaceId, metric);
   
   // 1. Total GMS (Revenue)
-  if (sellerInfo.s_total_gms) {
-    var trend = undefined;
-    if (sellerInfo.s_total_gms_momp) {
-      var isNegative = sellerInfo.s_total_gms_momp.indexOf('-') !== -1;
-      trend = {
-        direction: isNegative ? 'down' : 'up',
-        text: sellerInfo.s_total_gms_momp + ' MoM'
-      };
-    }
-    
+  if (sellerInfo.totalGms) {
     metrics.push({
       icon: '💰',
       label: 'Total Revenue',
-      value: sellerInfo.s_total_gms,
+      value: formatMoney(sellerInfo.totalGms, marketplace),
       category: 'finance',
-      trend: trend
+      trend: getMomTrend(sellerInfo.totalGmsMom, marketplace),
+      sparkline: series('totalGms')
     });
   }
   
   // 2. Total Ordered Units
-  if (sellerInfo.total_ordered_units) {
-    var trend = undefined;
-    if (sellerInfo.total_ordered_units_momp) {
-      var isNegative = sellerInfo.total_ordered_units_momp.indexOf('-') !== -1;
-      trend = {
-        direction: isNegative ? 'down' : 'up',
-        text: sellerInfo.total_ordered_units_momp + ' MoM'
-      };
-    }
-    
+  if (sellerInfo.totalOrderedUnits !== null) {
     metrics.push({
       icon: '📦',
       label: 'Units Sold',
-      value: sellerInfo.total_ordered_units,
+      value: marketplaceRegistry.formatNumber(sellerInfo.totalOrderedUnits, marketplace),
       category: 'sales',
-      trend: trend
+      trend: getMomTrend(sellerInfo.totalOrderedUnitsMom, marketplace),
+      sparkline: series('totalOrderedUnits')
     });
   }
   
   // 3. Buy Box Win Rate
-  if (sellerInfo.buy_box_win_rate) {
-    const winRate = (parseFloat(sellerInfo.buy_box_win_rate) * 100).toFixed(1);
+  if (sellerInfo.buyBoxWinRate !== null) {
     metrics.push({
       icon: '🎯',
       label: 'Buy Box Win Rate',
-      value: winRate + '%',
-      category: 'performance'
+      value: marketplaceRegistry.formatPercent(sellerInfo.buyBoxWinRate, marketplace),
+      category: 'performance',
+      sparkline: series('buyBoxWinRate')
     });
   }
   
   // 4. FBA Buyable ASINs
-  if (sellerInfo.fba_buyable_asin_count_3p) {
+  if (sellerInfo.fbaBuyableAsinCount !== null) {
     metrics.push({
       icon: '📋',
       label: 'Buyable Asins',
-      value: sellerInfo.fba_buyable_asin_count_3p,
+      value: marketplaceRegistry.formatNumber(sellerInfo.fbaBuyableAsinCount, marketplace),
       category: 'inventory'
     });
   }
   
   // 5. IPI Score
-  if (sellerInfo.ipi_scr) {
+  if (sellerInfo.ipiScore !== null) {
     metrics.push({
       icon: '📊',
       label: 'IPI Score',
-      value: sellerInfo.ipi_scr,
+      value: marketplaceRegistry.formatNumber(sellerInfo.ipiScore, marketplace),
       category: 'performance'
     });
   }
   
   // 6. Total Activities
-  if (sellerInfo.activity_total_count) {
+  if (sellerInfo.activityTotalCount !== null) {
     metrics.push({
       icon: '📞',
       label: 'Total Activities',
-      value: sellerInfo.activity_total_count,
+      value: marketplaceRegistry.formatNumber(sellerInfo.activityTotalCount, marketplace),
       category: 'engagement'
     });
   }
   
   // 7. Marketplace
-  if (sellerInfo.home_marketplace_id) {
+  if (sellerInfo.homeMarketplaceId) {
     metrics.push({
       icon: '🌍',
       label: 'Marketplace',
-      value: sellerInfo.home_marketplace_id,
+      value: marketplaceRegistry.describe(sellerInfo.homeMarketplaceId),
       category: 'general'
     });
   }
   
   // 8. Brand Category
-  if (sellerInfo.merchant_primary_pg_desc) {
+  if (sellerInfo.primaryProductGroup) {
     metrics.push({
       icon: '🏷️',
       label: 'Category',
-      value: sellerInfo.merchant_primary_pg_desc,
+      value: sellerInfo.primaryProductGroup,
       category: 'general'
     });
   }
   
   // 9. Average Selling Price
-  if (sellerInfo.net_ordered_asp) {
-    const asp = parseFloat(sellerInfo.net_ordered_asp);
+  if (sellerInfo.netOrderedAsp) {
     metrics.push({
-      icon: '💴',
+      icon: '🧾',
       label: 'Avg Selling Price',
-      value: '¥' + asp.toLocaleString(),
+      value: formatMoney(sellerInfo.netOrderedAsp, marketplace),
       category: 'finance'
     });
   }
   
   // 10. FBA Adoption Status
-  if (sellerInfo.fba_adoption_status) {
+  if (sellerInfo.fbaAdopted !== null) {
     metrics.push({
       icon: '🚚',
       label: 'FBA Status',
-      value: sellerInfo.fba_adoption_status === 'Y' ? 'Active' : 'Inactive',
+      value: sellerInfo.fbaAdopted ? 'Active' : 'Inactive',
       category: 'general'
     });
   }
@@ -1508,126 +3041,414 @@ function extractSellerMetrics(data: any): MetricItem[] {
   return result;
 }
 
-// Helper interfaces and functions
-interface MetricItem {
-  icon: string;
-  label: string;
-  value: string;
-  category: string;
-  trend?: {
-    direction: 'up' | 'down' | 'neutral';
-    text: string;
+// Metrics are reported in the requested marketplace, or the seller's home marketplace when none was asked for
+function getHistoryMarketplace(history: SellerHistory): Marketplace {
+  return marketplaceRegistry.resolve(history.marketplaceId, history.sellerInfo.homeMarketplaceId);
+}
+
+function getMomTrend(change: number | null, marketplace: Marketplace): MetricItem['trend'] {
+  if (change === null) {
+    return undefined;
+  }
+  return {
+    direction: change > 0 ? 'up' : change < 0 ? 'down' : 'neutral',
+    text: marketplaceRegistry.formatPercent(change, marketplace, true) + ' MoM'
   };
 }
 
-function getMetricColor(index: number) {
-  const colors = [
-    { gradient: 'linear-gradient(135deg, #667eea, #764ba2)', shadow: 'rgba(102, 126, 234, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #f093fb, #f5576c)', shadow: 'rgba(240, 147, 251, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #4facfe, #00f2fe)', shadow: 'rgba(79, 172, 254, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #43e97b, #38f9d7)', shadow: 'rgba(67, 233, 123, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #fa709a, #fee140)', shadow: 'rgba(250, 112, 154, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #a8edea, #fed6e3)', shadow: 'rgba(168, 237, 234, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #ff9a9e, #fecfef)', shadow: 'rgba(255, 154, 158, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #a1c4fd, #c2e9fb)', shadow: 'rgba(161, 196, 253, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #ffecd2, #fcb69f)', shadow: 'rgba(255, 236, 210, 0.3)' },
-    { gradient: 'linear-gradient(135deg, #e0c3fc, #9bb5ff)', shadow: 'rgba(224, 195, 252, 0.3)' }
-  ];
-  
-  return colors[index % colors.length];
+function formatMoney(money: Money, marketplace: Marketplace): string {
+  return marketplaceRegistry.formatCurrency(money.amount, marketplace, money.currency);
 }
 
-function formatCurrency(value: number): string {
-  if (value >= 1000000) {
-    return `$${(value / 1000000).toFixed(1)}M`;
-  } else if (value >= 1000) {
-    return `$${(value / 1000).toFixed(1)}K`;
-  } else {
-    return `$${value.toFixed(2)}`;
+// Opportunities pipeline, grouped by stage, from the last seller history
+const CLOSED_STAGE_PATTERN = /closed|won|lost/i;
+
+function isOpenOpportunity(opportunity: SellerOpportunity): boolean {
+  return !opportunity.stage || !CLOSED_STAGE_PATTERN.test(opportunity.stage);
+}
+
+function updateOpportunityStageFilter(opportunities: SellerOpportunity[]) {
+  const stageFilter = document.getElementById("opportunity-stage-filter") as HTMLSelectElement;
+  if (!stageFilter) return;
+
+  const selected = stageFilter.value;
+  const stages: string[] = [];
+  opportunities.forEach(opportunity => {
+    const stage = opportunity.stage || "No stage";
+    if (stages.indexOf(stage) === -1) {
+      stages.push(stage);
+    }
+  });
+
+  stageFilter.innerHTML = '<option value="">All stages</option>';
+  stages.sort().forEach(stage => {
+    const option = document.createElement("option");
+    option.value = stage;
+    option.textContent = stage;
+    stageFilter.appendChild(option);
+  });
+  stageFilter.value = stages.indexOf(selected) !== -1 ? selected : "";
+}
+
+function sortOpportunities(opportunities: SellerOpportunity[], sortBy: string): SellerOpportunity[] {
+  return opportunities.slice().sort((a, b) => {
+    if (sortBy === "amount") {
+      return (b.amount ? b.amount.amount : -1) - (a.amount ? a.amount.amount : -1);
+    }
+    if (sortBy === "name") {
+      return (a.name || "").localeCompare(b.name || "");
+    }
+    // Soonest close date first, undated last
+    return (a.closeDate || "9999").localeCompare(b.closeDate || "9999");
+  });
+}
+
+// Emails where an opportunity came up: seller activities tagged with it, or whose subject names it
+function getOpportunityEmails(opportunity: SellerOpportunity, activities: SellerActivity[]): SellerActivity[] {
+  const name = (opportunity.name || "").toLowerCase();
+  return activities.filter(activity => {
+    if (!activity.itemId && !activity.conversationId) {
+      return false;
+    }
+    if (opportunity.opportunityId && activity.opportunityId === opportunity.opportunityId) {
+      return true;
+    }
+    return name.length >= 4 && (activity.subject || "").toLowerCase().indexOf(name) !== -1;
+  });
+}
+
+function renderOpportunities() {
+  const listElement = document.getElementById("opportunities-list");
+  if (!listElement) return;
+
+  const stageFilter = document.getElementById("opportunity-stage-filter") as HTMLSelectElement;
+  const sortSelect = document.getElementById("opportunity-sort") as HTMLSelectElement;
+  const openOnly = document.getElementById("opportunity-open-only") as HTMLInputElement;
+  const stage = stageFilter ? stageFilter.value : "";
+
+  const opportunities = (lastSellerHistory?.opportunities || []).filter(opportunity =>
+    (!stage || (opportunity.stage || "No stage") === stage) &&
+    (!openOnly?.checked || isOpenOpportunity(opportunity))
+  );
+
+  listElement.innerHTML = "";
+  if (opportunities.length === 0) {
+    listElement.innerHTML = '<p style="margin: 0; font-size: 12px; color: #6c757d;">No opportunities found.</p>';
+    return;
   }
+
+  const marketplace = getHistoryMarketplace(lastSellerHistory);
+
+  // Group by stage, keeping the chosen sort order inside each group
+  const groups: { [stage: string]: SellerOpportunity[] } = {};
+  const stageOrder: string[] = [];
+  sortOpportunities(opportunities, sortSelect ? sortSelect.value : "closeDate").forEach(opportunity => {
+    const key = opportunity.stage || "No stage";
+    if (!groups[key]) {
+      groups[key] = [];
+      stageOrder.push(key);
+    }
+    groups[key].push(opportunity);
+  });
+
+  stageOrder.forEach(key => {
+    const group = groups[key];
+    // One total per currency - amounts in different currencies can't be added up
+    const totals: { [currency: string]: number } = {};
+    const currencies: string[] = [];
+    group.forEach(opportunity => {
+      if (!opportunity.amount) return;
+      const currency = opportunity.amount.currency || marketplace.currency;
+      if (totals[currency] === undefined) {
+        totals[currency] = 0;
+        currencies.push(currency);
+      }
+      totals[currency] += opportunity.amount.amount;
+    });
+    const totalText = currencies.length > 0 ?
+      currencies.map(currency => formatMoney({ amount: totals[currency], currency }, marketplace)).join(" + ") :
+      formatMoney({ amount: 0, currency: null }, marketplace);
+
+    const header = document.createElement("div");
+    header.textContent = `${key} (${group.length}) · ${totalText}`;
+    header.style.cssText = `
+      margin: 8px 0 4px 0;
+      font-size: 12px;
+      font-weight: 600;
+      color: #0078d4;
+    `;
+    listElement.appendChild(header);
+
+    group.forEach(opportunity => listElement.appendChild(createOpportunityCard(opportunity, marketplace)));
+  });
 }
 
-function formatNumberValue(value: number, key: string): string {
-  if (/revenue|sales|amount|price|cost|total|value|earning|dollar/i.test(key)) {
-    return formatCurrency(value);
-  } else if (/percent|rate|ratio/i.test(key)) {
-    return `${value.toFixed(1)}%`;
-  } else if (Number.isInteger(value)) {
-    return value.toLocaleString();
-  } else {
-    return value.toFixed(2);
+function createOpportunityCard(opportunity: SellerOpportunity, marketplace: Marketplace): HTMLElement {
+  const card = document.createElement("div");
+  card.style.cssText = `
+    padding: 8px;
+    margin-bottom: 6px;
+    background: #f8f9fa;
+    border: 1px solid #e9ecef;
+    border-radius: 4px;
+    font-size: 12px;
+    line-height: 1.4;
+  `;
+
+  const heading = document.createElement("div");
+  heading.style.cssText = `
+    display: flex;
+    justify-content: space-between;
+    gap: 8px;
+    font-weight: 600;
+    color: #495057;
+  `;
+  const name = document.createElement("span");
+  name.textContent = opportunity.name || opportunity.opportunityId || "Untitled opportunity";
+  const value = document.createElement("span");
+  value.textContent = opportunity.amount ? formatMoney(opportunity.amount, marketplace) : "—";
+  value.style.whiteSpace = "nowrap";
+  heading.appendChild(name);
+  heading.appendChild(value);
+  card.appendChild(heading);
+
+  const meta = document.createElement("div");
+  meta.textContent = [
+    opportunity.closeDate ? `📅 Closes ${new Date(opportunity.closeDate).toLocaleDateString(marketplace.locale)}` : '📅 No close date',
+    opportunity.probability !== null ? `🎯 ${marketplaceRegistry.formatPercent(opportunity.probability, marketplace)}` : '',
+    opportunity.owner ? `👤 ${opportunity.owner}` : ''
+  ].filter(part => !!part).join('  ·  ');
+  meta.style.cssText = `
+    color: #6c757d;
+    font-size: 11px;
+  `;
+  card.appendChild(meta);
+
+  const emails = getOpportunityEmails(opportunity, lastSellerHistory?.activities || []);
+  if (emails.length > 0) {
+    const emailList = document.createElement("div");
+    emailList.style.marginTop = "4px";
+    emails.forEach(activity => emailList.appendChild(createEmailLink(activity)));
+    card.appendChild(emailList);
   }
+
+  return card;
 }
 
-function formatFieldName(key: string): string {
-  return key.split(/[_-]/).map(word => 
-    word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-  ).join(' ');
+// Link to an email from the seller history; opens it in Outlook when we have its item ID
+function createEmailLink(activity: SellerActivity): HTMLElement {
+  const label = `✉️ ${activity.subject || "Email"}${activity.activityDate ? ` (${new Date(activity.activityDate).toLocaleDateString()})` : ''}`;
+  const canOpen = !!activity.itemId && typeof Office !== 'undefined' && !!Office.context?.mailbox;
+
+  const link = document.createElement(canOpen ? "a" : "div");
+  link.textContent = label;
+  link.style.cssText = `
+    display: block;
+    font-size: 11px;
+    color: ${canOpen ? '#0078d4' : '#6c757d'};
+    cursor: ${canOpen ? 'pointer' : 'default'};
+  `;
+  if (canOpen) {
+    link.onclick = () => Office.context.mailbox.displayMessageForm(activity.itemId);
+  }
+  return link;
 }
 
-function getCategoryForField(key: string): string {
-  if (/revenue|sales|amount|price|cost|total|value|earning/i.test(key)) return 'Revenue';
-  if (/count|quantity|number|volume/i.test(key)) return 'Volume';
-  if (/date|time|created|updated/i.test(key)) return 'Timeline';
-  if (/status|state|type|category/i.test(key)) return 'Status';
-  if (/id|identifier|key/i.test(key)) return 'Identity';
-  return 'General';
+// Tables for the export actions, built from the same data the results tabs show
+function buildExportTables(history: SellerHistory): { [dataset: string]: ExportTable } {
+  const marketplace = getHistoryMarketplace(history);
+  return {
+    metrics: {
+      name: 'Key Metrics',
+      columns: ['Metric', 'Value', 'Trend', 'Category'],
+      rows: extractSellerMetrics(history).map(metric => [
+        metric.label,
+        metric.value,
+        metric.trend ? metric.trend.text : '',
+        metric.category
+      ])
+    },
+    activities: {
+      name: 'Activities',
+      columns: ['Date', 'Type', 'Subject', 'Status', 'Owner', 'Contact', 'Due Date', 'Description'],
+      rows: history.activities.map(activity => [
+        activity.activityDate,
+        activity.activityType,
+        activity.subject,
+        activity.status,
+        activity.owner,
+        activity.contactEmail,
+        activity.dueDate,
+        activity.description
+      ])
+    },
+    opportunities: {
+      name: 'Opportunities',
+      columns: ['Name', 'Stage', 'Amount', 'Currency', 'Probability', 'Close Date', 'Owner', 'Opportunity ID'],
+      rows: history.opportunities.map(opportunity => [
+        opportunity.name,
+        opportunity.stage,
+        opportunity.amount ? opportunity.amount.amount : null,
+        opportunity.amount ? opportunity.amount.currency || marketplace.currency : null,
+        opportunity.probability,
+        opportunity.closeDate,
+        opportunity.owner,
+        opportunity.opportunityId
+      ])
+    }
+  };
 }
 
-function getNumberIcon(key: string): string {
-  if (/revenue|sales|amount|price|cost|total|value|earning/i.test(key)) return '💰';
-  if (/count|quantity|number|volume/i.test(key)) return '🔢';
-  if (/percent|rate|ratio/i.test(key)) return '📊';
-  return '📈';
+function exportFileDate(): string {
+  return new Date().toISOString().slice(0, 10);
 }
 
-function getStringIcon(key: string): string {
-  if (/name|title/i.test(key)) return '🏷️';
-  if (/status|state/i.test(key)) return '🔘';
-  if (/id|identifier/i.test(key)) return '🆔';
-  if (/email|mail/i.test(key)) return '📧';
-  if (/phone|tel/i.test(key)) return '📞';
-  return '📝';
+function handleExport(format: 'csv' | 'xlsx') {
+  if (!requireCapability('exportData')) {
+    return;
+  }
+  if (!lastSellerHistory) {
+    showError("Get seller metrics first, then export them.");
+    return;
+  }
+
+  const tables = buildExportTables(lastSellerHistory);
+  const baseName = `seller-${lastSellerHistory.merchantId}-${marketplaceRegistry.resolve(lastSellerHistory.marketplaceId, lastSellerHistory.sellerInfo.homeMarketplaceId).code}-${exportFileDate()}`;
+  try {
+    if (format === 'xlsx') {
+      downloadFile(`${baseName}.xlsx`, toXlsx([tables.metrics, tables.activities, tables.opportunities]));
+    } else {
+      const datasetSelect = document.getElementById("export-dataset") as HTMLSelectElement;
+      const dataset = datasetSelect && tables[datasetSelect.value] ? datasetSelect.value : 'metrics';
+      downloadFile(`${baseName}-${dataset}.csv`, toCsv(tables[dataset]));
+    }
+  } catch (error) {
+    console.error("❌ Export failed:", error);
+    showError(`Export failed: ${(error as Error).message}`);
+  }
+}
+
+// Download the open item's agent conversation as Markdown
+function handleExportConversation() {
+  if (!requireCapability('exportData')) {
+    return;
+  }
+  const conversation = conversationService.getConversation(getCurrentItemKey());
+  if (conversation.turns.length === 0) {
+    showError("There's no conversation to export yet.");
+    return;
+  }
+
+  const item = typeof Office !== 'undefined' ? Office.context?.mailbox?.item : null;
+  downloadFile(
+    `agent-conversation-${exportFileDate()}.md`,
+    toMarkdown('Agent conversation', [
+      ['Email', item?.subject || ''],
+      ['From', item?.from?.emailAddress || ''],
+      ['Exported', new Date().toLocaleString()]
+    ], conversation.turns.map(turn => ({
+      heading: turn.role === 'user' ? 'You' : `Agent${turn.backendId ? ` (${getBackendDisplayName(turn.backendId)})` : ''}`,
+      text: turn.text,
+      citations: turn.citations
+    })))
+  );
+}
+
+// List schema drift reported by the seller metrics decoder above the metric cards
+function renderSchemaWarnings(warnings: SchemaWarning[], container: HTMLElement) {
+  if (warnings.length === 0) {
+    return;
+  }
+
+  const details = document.createElement("details");
+  details.style.cssText = `
+    margin: 8px;
+    padding: 6px 8px;
+    background: #fff3cd;
+    border: 1px solid #ffeeba;
+    border-radius: 4px;
+    font-size: 12px;
+    color: #856404;
+  `;
+  const summary = document.createElement("summary");
+  summary.textContent = `⚠️ ${warnings.length} schema ${warnings.length === 1 ? 'warning' : 'warnings'} - some metrics may be missing`;
+  summary.style.cursor = "pointer";
+  details.appendChild(summary);
+
+  const list = document.createElement("ul");
+  list.style.cssText = `
+    margin: 6px 0 0 0;
+    padding-left: 18px;
+  `;
+  warnings.forEach(warning => {
+    const item = document.createElement("li");
+    item.textContent = `[${warning.code}] ${warning.message}`;
+    list.appendChild(item);
+  });
+  details.appendChild(list);
+
+  container.insertBefore(details, container.firstChild);
+}
+
+// Helper interfaces and functions
+interface MetricItem {
+  icon: string;
+  label: string;
+  value: string;
+  category: string;
+  trend?: {
+    direction: 'up' | 'down' | 'neutral';
+    text: string;
+  };
+  sparkline?: TrendPoint[];
+}
+
+function formatFieldName(key: string): string {
+  return key.split(/[_-]/).map(word => 
+    word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+  ).join(' ');
 }
 
 function setupTabNavigation() {
-  var metricsTab = document.getElementById('metrics-tab');
-  var rawTab = document.getElementById('raw-tab');
-  var metricsContent = document.getElementById('metrics-content');
-  var rawContent = document.getElementById('raw-content');
-  
-  if (metricsTab && rawTab && metricsContent && rawContent) {
-    metricsTab.onclick = function() {
-      // Reset all tabs
-      metricsTab.style.background = 'white';
-      metricsTab.style.color = '#0078d4';
-      metricsTab.style.borderBottom = '2px solid #0078d4';
-      rawTab.style.background = '#f8f9fa';
-      rawTab.style.color = '#6c757d';
-      rawTab.style.borderBottom = '2px solid transparent';
-      
-      // Show/hide content
-      metricsContent.style.display = 'block';
-      rawContent.style.display = 'none';
+  setupTabGroup([
+    { tabId: 'metrics-tab', contentId: 'metrics-content' },
+    { tabId: 'opportunities-tab', contentId: 'opportunities-content' },
+    { tabId: 'comparison-tab', contentId: 'comparison-content' },
+    { tabId: 'raw-tab', contentId: 'raw-content' }
+  ]);
+}
+
+// Wire a group of tab buttons to their content panes
+function setupTabGroup(tabs: Array<{ tabId: string; contentId: string }>) {
+  var elements = tabs.map(function(tab) {
+    return {
+      tab: document.getElementById(tab.tabId),
+      content: document.getElementById(tab.contentId)
     };
-    
-    rawTab.onclick = function() {
+  });
+  
+  if (elements.some(function(element) { return !element.tab || !element.content; })) {
+    return;
+  }
+  
+  elements.forEach(function(active) {
+    active.tab.onclick = function() {
       // Reset all tabs
-      metricsTab.style.background = '#f8f9fa';
-      metricsTab.style.color = '#6c757d';
-      metricsTab.style.borderBottom = '2px solid transparent';
-      rawTab.style.background = 'white';
-      rawTab.style.color = '#0078d4';
-      rawTab.style.borderBottom = '2px solid #0078d4';
-      
-      // Show/hide content
-      metricsContent.style.display = 'none';
-      rawContent.style.display = 'block';
+      elements.forEach(function(element) {
+        var isActive = element === active;
+        element.tab.style.background = isActive ? 'white' : '#f8f9fa';
+        element.tab.style.color = isActive ? '#0078d4' : '#6c757d';
+        element.tab.style.borderBottom = isActive ? '2px solid #0078d4' : '2px solid transparent';
+        
+        // Show/hide content
+        element.content.style.display = isActive ? 'block' : 'none';
+      });
     };
-  }
+  });
 }
 
 function hideApiResults() {
+  updateResultsAge(null);
   const resultsDiv = document.getElementById("api-results");
   if (resultsDiv) {
     resultsDiv.style.display = "none";
@@ -1648,6 +3469,10 @@ function showApiLoading(isLoading: boolean) {
 
 // Setup debug buttons for authenticated users
 function setupDebugButtons() {
+  if (!permissionService.can('viewDebugPanel')) {
+    return;
+  }
+
   // Clear auth button (when logged in)
   const clearAuthLoggedInBtn = document.getElementById("clear-auth-logged-in-btn");
   if (clearAuthLoggedInBtn) {
@@ -1656,13 +3481,8 @@ function setupDebugButtons() {
       try {
         await authService.signOut();
         
-        // Also manually clear any remaining OIDC data
-        Object.keys(localStorage).forEach(key => {
-          if (key.startsWith('oidc.') || key.includes('auth') || key.includes('token')) {
-            localStorage.removeItem(key);
-            console.log('🗑️ Cleared:', key);
-          }
-        });
+        // Also clear the other signed-in accounts and any leftover sign-in state
+        clearAuthStorage();
         
         showSuccess("Auth data cleared! Refreshing to test fresh login...");
         
@@ -2,6 +2,11 @@
  * OIDC Authentication Type Definitions
  */
 
+import { PopupWindowFeatures } from 'oidc-client-ts';
+
+// Where tokens are kept: 'memory' is cleared when the task pane closes or reloads, 'session' survives reloads
+export type TokenStorageScope = 'memory' | 'session';
+
 export interface OIDCConfig {
   authority: string;
   clientId: string;
@@ -9,8 +14,9 @@ export interface OIDCConfig {
   postLogoutRedirectUri?: string;
   scope: string;
   responseType: string;
-  popupWindowFeatures?: string;
+  popupWindowFeatures?: PopupWindowFeatures;
   popupWindowTarget?: string;
+  tokenStorage?: TokenStorageScope;   // Defaults to 'session'
 }
 
 export interface UserProfile {
@@ -31,12 +37,30 @@ export interface AuthState {
   error: string | null;
 }
 
-export interface AuthEvents {
-  onUserLoaded: (user: UserProfile) => void;
-  onUserUnloaded: () => void;
-  onAccessTokenExpiring: () => void;
-  onAccessTokenExpired: () => void;
-  onSilentRenewError: (error: Error) => void;
+// Events raised by AuthService, with their payloads
+export interface AuthEventMap {
+  userLoaded: UserProfile;         // OIDC user loaded (sign-in, callback or renewal)
+  userUnloaded: void;              // OIDC user removed from storage
+  authSuccess: UserProfile;        // Interactive sign-in completed
+  tokenRenewed: UserProfile;       // Tokens renewed without interaction
+  tokenExpired: void;              // Token expired and couldn't be renewed
+  loginRequired: void;             // Renewal needs the user to sign in again
+  authenticationFailed: void;      // Renewal failed for another reason
+  userSignedOut: void;
+  accessTokenExpiring: void;
+  accessTokenExpired: void;
+  silentRenewError: Error;
+  accountSwitched: UserProfile;    // Another signed-in account became active
+  accountRemoved: string;          // An account was signed out (its sub)
+}
+
+export interface AccountSummary {
+  sub: string;
+  name: string;
+  email: string;
+  org?: string;
+  active: boolean;
+  expired: boolean;
 }
 
 export class AuthenticationError extends Error {